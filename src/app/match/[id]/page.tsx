@@ -5,17 +5,119 @@ import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import { doc, onSnapshot, updateDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase/config";
-import { recordBall, undoLastBall } from "@/lib/firebase/scoring";
-import { switchToSecondInnings, endMatch, createRematchWithSameSquads } from "@/lib/firebase/matches";
-import type { Match, PlayerStatsState } from "@/types/cricket";
+import {
+  awardPenaltyRuns,
+  getInningsId,
+  getPlayedInningsIds,
+  getSummaryInningsId,
+  recordBall,
+  redoBall,
+  resumeRetiredBatter,
+  undoLastBall,
+} from "@/lib/firebase/scoring";
+import {
+  switchInnings,
+  declareInnings,
+  endMatch,
+  createRematchWithSameSquads,
+  interruptMatch,
+  startSuperOver,
+} from "@/lib/firebase/matches";
+import {
+  allowedDismissals,
+  allowsBackingUpRunOut,
+  DEFAULT_BALLS_PER_OVER,
+  DEFAULT_PENALTY_RUNS,
+  endsChangeAfterOver,
+  isRetirement,
+  getBallsPerOver,
+  getBatterStats,
+  getBowlerBallsRemaining,
+  getBowlerStats,
+  getMaxOversPerBowler,
+  getMaxWickets,
+  isBattingAlone,
+  getFirstInningsRuns,
+  getInningsOvers,
+  getLegalBalls,
+  getRunRate,
+  getTarget,
+} from "@/lib/cricket/engine";
+import {
+  OVER_FORMATS,
+  formatInningsLabel,
+  formatInningsShortLabel,
+  formatOverFormat,
+  formatOvers,
+  getOverFormatIndex,
+} from "@/lib/cricket/format";
+import {
+  canEnforceFollowOn,
+  getInningsPerSide,
+  getLead,
+  isFinalInnings,
+} from "@/lib/cricket/innings";
+import { PHASE_LABELS, getCurrentPhase } from "@/lib/cricket/phases";
+import { BOUNDARY_OUT_LABELS, describeHouseRules } from "@/lib/cricket/rules";
+import {
+  TARGET_METHOD_LABELS,
+  TARGET_METHOD_SHORT_LABELS,
+  buildOversRevision,
+  calculateRevisedTarget,
+  getCutState,
+} from "@/lib/cricket/targets";
+import type {
+  BallInput,
+  CreaseEnd,
+  Match,
+  PlayerStatsState,
+  TargetMethod,
+  TeamId,
+} from "@/types/cricket";
 import { WicketType, ExtraType, MatchStatus } from "@/types/cricket";
 import BowlerStatsSidebar from "@/components/match/BowlerStatsSidebar";
 import BatterStatsSidebar from "@/components/match/BatterStatsSidebar";
+import FieldingStatsSidebar from "@/components/match/FieldingStatsSidebar";
+import InningsBreakdownSidebar from "@/components/match/InningsBreakdownSidebar";
+import PairScoresSidebar from "@/components/match/PairScoresSidebar";
+import PhaseBreakdown from "@/components/match/PhaseBreakdown";
+import LedgerIntegrityPanel from "@/components/match/LedgerIntegrityPanel";
+import BallLedgerEditor from "@/components/match/BallLedgerEditor";
+import UndoRedoHistory from "@/components/match/UndoRedoHistory";
+import { useAuth } from "@/contexts/AuthContext";
 
 type WicketMode = {
   active: boolean;
   batterSide: "striker" | "non-striker" | null;
   type: WicketType | null;
+  runs: number; // Runs completed before the wicket (or the boundary on a no-ball)
+  runsSource: "bat" | ExtraType.BYE | ExtraType.LEG_BYE;
+  extra: ExtraType.WIDE | ExtraType.NO_BALL | null;
+  runOutEnd: CreaseEnd | null; // End where the wicket was broken (run outs)
+  battersCrossed: boolean | null; // Catches under the older laws: did the batters cross?
+  backingUp: boolean; // Non-striker run out backing up, before the ball was bowled
+  fielderId: string; // Catcher, keeper or fielder who broke the wicket
+  assistId: string; // Run outs: fielder who threw the ball in
+};
+
+const EMPTY_WICKET_STATE: WicketMode = {
+  active: false,
+  batterSide: null,
+  type: null,
+  runs: 0,
+  runsSource: "bat",
+  extra: null,
+  runOutEnd: null,
+  battersCrossed: null,
+  backingUp: false,
+  fielderId: "",
+  assistId: "",
+};
+
+const FIELDER_LABELS: Partial<Record<WicketType, string>> = {
+  [WicketType.CAUGHT]: "Caught by",
+  [WicketType.STUMPED]: "Stumped by (wicketkeeper)",
+  [WicketType.RUN_OUT]: "Wicket broken by",
 };
 
 const WICKET_OPTIONS: { label: string; value: WicketType }[] = [
@@ -25,7 +127,20 @@ const WICKET_OPTIONS: { label: string; value: WicketType }[] = [
   { label: "Run Out", value: WicketType.RUN_OUT },
   { label: "Stumped", value: WicketType.STUMPED },
   { label: "Hit Wicket", value: WicketType.HIT_WICKET },
-  { label: "Retired", value: WicketType.RETIRED },
+  { label: "Retired Out", value: WicketType.RETIRED },
+  { label: "Retired Hurt", value: WicketType.RETIRED_HURT },
+];
+
+const WICKET_EXTRA_OPTIONS: { label: string; value: WicketMode["extra"] }[] = [
+  { label: "Legal Ball", value: null },
+  { label: "Wide", value: ExtraType.WIDE },
+  { label: "No Ball", value: ExtraType.NO_BALL },
+];
+
+const WICKET_RUNS_SOURCES: { label: string; value: WicketMode["runsSource"] }[] = [
+  { label: "Off Bat", value: "bat" },
+  { label: "Byes", value: ExtraType.BYE },
+  { label: "Leg Byes", value: ExtraType.LEG_BYE },
 ];
 
 const EXTRA_BUTTONS: { label: string; type: ExtraType; runs: number }[] = [
@@ -39,31 +154,49 @@ export default function MatchScorerPage() {
   const params = useParams();
   const router = useRouter();
   const matchId = params?.id as string | undefined;
+  const { user } = useAuth();
 
   const [match, setMatch] = useState<Match | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
-  const [wicketState, setWicketState] = useState<WicketMode>({
-    active: false,
-    batterSide: null,
-    type: null,
-  });
+  const [wicketState, setWicketState] = useState<WicketMode>(EMPTY_WICKET_STATE);
   const [newBatterId, setNewBatterId] = useState("");
   const [isUpdatingBatter, setIsUpdatingBatter] = useState(false);
   const [newBowlerId, setNewBowlerId] = useState("");
   const [isUpdatingBowler, setIsUpdatingBowler] = useState(false);
   const [showBowlerSelector, setShowBowlerSelector] = useState(false);
-  const [showInningsSwitch, setShowInningsSwitch] = useState(false);
   const [secondInningsStrikerId, setSecondInningsStrikerId] = useState("");
   const [secondInningsNonStrikerId, setSecondInningsNonStrikerId] = useState("");
   const [secondInningsBowlerId, setSecondInningsBowlerId] = useState("");
   const [isSwitchingInnings, setIsSwitchingInnings] = useState(false);
+  const [enforceFollowOn, setEnforceFollowOn] = useState(false);
+  const [isDeclaring, setIsDeclaring] = useState(false);
   const [isEndingMatch, setIsEndingMatch] = useState(false);
   const prevScoreRef = useRef<{ overs: number; balls: number } | null>(null);
   const justSelectedBowlerRef = useRef(false);
+  const [showReduceOversModal, setShowReduceOversModal] = useState(false);
+  const [reducedOvers, setReducedOvers] = useState(1);
+  const [targetMethod, setTargetMethod] = useState<TargetMethod>("average_run_rate");
+  const [interruptionReason, setInterruptionReason] = useState("");
+  const [isReducingOvers, setIsReducingOvers] = useState(false);
   const [showRematchModal, setShowRematchModal] = useState(false);
   const [rematchOvers, setRematchOvers] = useState(20);
+  const [rematchFormatIndex, setRematchFormatIndex] = useState(0);
   const [isCreatingRematch, setIsCreatingRematch] = useState(false);
+  const [showSuperOverModal, setShowSuperOverModal] = useState(false);
+  const [superOverStrikerId, setSuperOverStrikerId] = useState("");
+  const [superOverNonStrikerId, setSuperOverNonStrikerId] = useState("");
+  const [superOverBowlerId, setSuperOverBowlerId] = useState("");
+  const [isStartingSuperOver, setIsStartingSuperOver] = useState(false);
+  const [showBallEditor, setShowBallEditor] = useState(false);
+  const [editInningsId, setEditInningsId] = useState<string | null>(null);
+  const [showPenaltyForm, setShowPenaltyForm] = useState(false);
+  const [penaltyTeamId, setPenaltyTeamId] = useState<TeamId | "">("");
+  const [penaltyRuns, setPenaltyRuns] = useState(DEFAULT_PENALTY_RUNS);
+  const [penaltyReason, setPenaltyReason] = useState("");
+  const [isAwardingPenalty, setIsAwardingPenalty] = useState(false);
+  // Completed innings whose scorecard is shown (null for the innings in play)
+  const [scorecardInnings, setScorecardInnings] = useState<string | null>(null);
 
   useEffect(() => {
     if (!matchId) return;
@@ -112,8 +245,9 @@ export default function MatchScorerPage() {
   useEffect(() => {
     if (match?.config?.total_overs) {
       setRematchOvers(match.config.total_overs);
+      setRematchFormatIndex(getOverFormatIndex(match.config));
     }
-  }, [match?.config?.total_overs]);
+  }, [match?.config]);
 
   const liveState = match?.live_state;
   const score = liveState?.score;
@@ -122,12 +256,16 @@ export default function MatchScorerPage() {
 
   useEffect(() => {
     if (matchCompleted) {
-      setShowInningsSwitch(false);
       setShowBowlerSelector(false);
     }
   }, [matchCompleted]);
   const playerStats: PlayerStatsState =
     liveState?.player_stats ?? { batters: {}, bowlers: {} };
+  const ballsPerOver = getBallsPerOver(match?.config);
+  // One over a side in a super over
+  const inningsOvers =
+    liveState && match ? getInningsOvers(liveState, match.config) : 0;
+  const superOverNumber = liveState?.super_over ?? null;
 
   const resolveTeam = (
     teams: Match["teams"],
@@ -146,13 +284,10 @@ export default function MatchScorerPage() {
     ? resolveTeam(match.teams, liveState?.bowling_team_id)
     : null;
 
-  // Team references for innings context
-  const secondInningsBattingTeam = match
-    ? resolveTeam(match.teams, liveState?.bowling_team_id)
-    : null;
-  const secondInningsBowlingTeam = match
-    ? resolveTeam(match.teams, liveState?.batting_team_id)
-    : null;
+  // Team references for innings context: the teams swap for the next
+  // innings unless the follow-on is enforced
+  const nextInningsBattingTeam = enforceFollowOn ? battingTeam : bowlingTeam;
+  const nextInningsBowlingTeam = enforceFollowOn ? bowlingTeam : battingTeam;
   const firstInningsBattingTeam = match
     ? resolveTeam(match.teams, liveState?.first_batting_team_id)
     : null;
@@ -166,12 +301,21 @@ export default function MatchScorerPage() {
     battingTeam?.players.find((p) => p.id === liveState?.non_striker_id) ||
     null;
   const dismissedBatterIds = liveState?.dismissed_batter_ids ?? [];
-  const battingTeamSize = battingTeam?.players.length ?? 0;
-  const maxWicketsBeforeAllOut = Math.max(battingTeamSize - 1, 0);
+  // Retired-hurt batters are not out: they stay available to resume
+  const retiredHurtIds = liveState?.retired_hurt_ids ?? [];
+  const maxWicketsBeforeAllOut = match
+    ? getMaxWickets(match, liveState?.batting_team_id, !!superOverNumber)
+    : 0;
   const inningsAllOut =
     !!score &&
     maxWicketsBeforeAllOut > 0 &&
     score.wickets >= maxWicketsBeforeAllOut;
+  // Last man stands: the final batter carries on with no one at the other end
+  const battingAlone =
+    !!match &&
+    !!liveState &&
+    !inningsAllOut &&
+    isBattingAlone(match, liveState, liveState.score.wickets);
 
   // Detect over completion
   useEffect(() => {
@@ -187,10 +331,14 @@ export default function MatchScorerPage() {
       return;
     }
 
-    // Check if innings is complete (overs exhausted or all batters dismissed)
-    const totalOvers = match?.config?.total_overs ?? 0;
-    const oversLimitReached = score.overs >= totalOvers;
-    const inningsShouldEnd = oversLimitReached || inningsAllOut;
+    // Check if innings is complete (closed by the engine, or overs exhausted
+    // or all batters dismissed)
+    const oversLimitReached = score.overs >= inningsOvers;
+    const inningsShouldEnd =
+      !!liveState?.innings_closed ||
+      oversLimitReached ||
+      inningsAllOut ||
+      !!liveState?.declared;
 
     // Over completed when:
     // 1. Balls reset to 0 (from any value > 0)
@@ -218,15 +366,6 @@ export default function MatchScorerPage() {
       !justSelectedBowlerRef.current &&
       liveState.bowler_id === liveState.last_bowler_id;
 
-    // Check if innings is complete and show switch option
-    if (
-      inningsShouldEnd &&
-      !showInningsSwitch &&
-      !showBowlerSelector
-    ) {
-      setShowInningsSwitch(true);
-    }
-
     if (
       (overJustCompleted || isInOverCompletionState) &&
       liveState?.bowler_id &&
@@ -251,10 +390,11 @@ export default function MatchScorerPage() {
     inningsAllOut,
     liveState?.bowler_id,
     showBowlerSelector,
-    match?.config?.total_overs,
+    inningsOvers,
     matchCompleted,
+    liveState?.declared,
+    liveState?.innings_closed,
     liveState?.last_bowler_id,
-    showInningsSwitch,
   ]);
 
   // Debug: Log batsmen lookup issues
@@ -304,53 +444,56 @@ export default function MatchScorerPage() {
   const bowler =
     bowlingTeam?.players.find((p) => p.id === liveState?.bowler_id) || null;
 
-  const strikerStats = striker
-    ? playerStats.batters[striker.id] ?? { runs: 0, balls: 0 }
-    : null;
+  const strikerStats = striker ? getBatterStats(playerStats, striker.id) : null;
   const nonStrikerStats = nonStriker
-    ? playerStats.batters[nonStriker.id] ?? { runs: 0, balls: 0 }
-    : null;
-  const bowlerStats = bowler
-    ? playerStats.bowlers[bowler.id] ?? { runs: 0, balls: 0, wickets: 0 }
+    ? getBatterStats(playerStats, nonStriker.id)
     : null;
+  const bowlerStats = bowler ? getBowlerStats(playerStats, bowler.id) : null;
 
   const crr = useMemo(() => {
     if (!score) return "0.00";
-    const totalBalls = score.overs * 6 + score.balls;
+    const totalBalls = getLegalBalls(score, ballsPerOver);
     if (totalBalls === 0) return "0.00";
-    const runRate = score.runs / (totalBalls / 6);
+    const runRate = getRunRate(score.runs, totalBalls, ballsPerOver);
     return runRate.toFixed(2);
-  }, [score]);
-
-  const isSecondInnings = liveState?.current_innings === 2;
+  }, [score, ballsPerOver]);
+
+  // The last innings of the match is the chase
+  const currentInnings = liveState?.current_innings ?? 1;
+  const isChasing =
+    !!liveState && !!match && isFinalInnings(liveState, match.config);
+  const isTwoInningsMatch =
+    !!match && getInningsPerSide(match.config) > 1 && !liveState?.super_over;
+  const inningsSummaries = match?.innings_summaries ?? [];
+  // First innings total plus any penalty runs awarded to the defending side
+  const firstInningsRuns = liveState ? getFirstInningsRuns(liveState) : null;
+  // Revised after an interruption, otherwise first-innings runs + 1
+  const target = liveState && match ? getTarget(liveState, match) : null;
+  const isTargetRevised = match?.revised_target != null;
 
   // Calculate Required Run Rate (RRR) for second innings
   const rrr = useMemo(() => {
     // Only show RRR in second innings (when first_innings_total exists)
     // Use != null to check if it's defined (allows 0, but not undefined/null)
-    const firstInningsTotal = liveState?.first_innings_total;
-    
-    if (!score || firstInningsTotal == null || liveState?.current_innings !== 2) {
+    if (!score || target == null || !isChasing) {
       return null;
     }
     
-    const target = firstInningsTotal + 1; // Target to win
     const currentScore = score.runs;
     const runsNeeded = target - currentScore;
     
     // If target already achieved or exceeded, show 0.00
     if (runsNeeded <= 0) return "0.00";
     
-    const totalOvers = match?.config?.total_overs ?? 0;
-    const oversBowled = score.overs + score.balls / 6; // Convert to decimal overs
-    const remainingOvers = totalOvers - oversBowled;
+    const oversBowled = score.overs + score.balls / ballsPerOver; // Convert to decimal overs
+    const remainingOvers = inningsOvers - oversBowled;
     
     // If no overs remaining, return null (match should be over)
     if (remainingOvers <= 0) return null;
     
     const requiredRunRate = runsNeeded / remainingOvers;
     return requiredRunRate.toFixed(2);
-  }, [score, liveState?.first_innings_total, liveState?.current_innings, match?.config?.total_overs]);
+  }, [score, target, isChasing, inningsOvers, ballsPerOver]);
   
   // Debug RRR calculation
   useEffect(() => {
@@ -370,7 +513,10 @@ export default function MatchScorerPage() {
     }
   }, [liveState, liveState?.first_innings_total, liveState?.current_innings, score, rrr]);
 
-  const handleRecordRun = async (runs: number) => {
+  const handleRecordRun = async (
+    runs: number,
+    flags: Pick<BallInput, "boundary" | "hit_object"> = {}
+  ) => {
     if (!matchId) return;
     
     if (matchCompleted) {
@@ -386,8 +532,11 @@ export default function MatchScorerPage() {
     
     try {
       setError("");
-      await recordBall(matchId, { runs_off_bat: runs });
-      setWicketState({ active: false, batterSide: null, type: null });
+      await recordBall(matchId, {
+        runs_off_bat: runs,
+        ...flags,
+      });
+      setWicketState(EMPTY_WICKET_STATE);
     } catch (err) {
       console.error("Record run error:", err);
       setError("Failed to record run");
@@ -417,7 +566,7 @@ export default function MatchScorerPage() {
         runs_off_bat: 0,
         extras: { type, runs },
       });
-      setWicketState({ active: false, batterSide: null, type: null });
+      setWicketState(EMPTY_WICKET_STATE);
     } catch (err) {
       console.error("Record extra error:", err);
       setError("Failed to record extra");
@@ -435,8 +584,47 @@ export default function MatchScorerPage() {
     }
   };
 
+  const handleRedo = async () => {
+    if (!matchId) return;
+    try {
+      setError("");
+      await redoBall(matchId);
+    } catch (err) {
+      console.error("Redo error:", err);
+      setError(err instanceof Error ? err.message : "Failed to redo ball");
+    }
+  };
+
+  const openPenaltyForm = () => {
+    setPenaltyTeamId((liveState?.batting_team_id as TeamId | undefined) ?? "");
+    setPenaltyRuns(match?.config?.penalty_runs ?? DEFAULT_PENALTY_RUNS);
+    setPenaltyReason("");
+    setShowPenaltyForm(true);
+  };
+
+  const handleAwardPenalty = async () => {
+    if (!matchId || !penaltyTeamId) return;
+
+    if (matchCompleted) {
+      setError("Match is already completed");
+      return;
+    }
+
+    try {
+      setIsAwardingPenalty(true);
+      setError("");
+      await awardPenaltyRuns(matchId, penaltyTeamId, penaltyRuns, penaltyReason);
+      setShowPenaltyForm(false);
+    } catch (err) {
+      console.error("Penalty runs error:", err);
+      setError(err instanceof Error ? err.message : "Failed to award penalty runs");
+    } finally {
+      setIsAwardingPenalty(false);
+    }
+  };
+
   const startWicketFlow = () => {
-    setWicketState({ active: true, batterSide: null, type: null });
+    setWicketState({ ...EMPTY_WICKET_STATE, active: true });
   };
 
   const completeWicket = async () => {
@@ -456,6 +644,15 @@ export default function MatchScorerPage() {
       return;
     }
     
+    if (!wicketOptions.some((opt) => opt.value === wicketState.type)) {
+      setError(
+        isFreeHit
+          ? "Free hit: the batter can only be run out."
+          : "That dismissal is not possible on this delivery"
+      );
+      return;
+    }
+
     const isStrikerOut = wicketState.batterSide === "striker";
     const batterId = isStrikerOut
       ? liveState?.striker_id
@@ -465,23 +662,86 @@ export default function MatchScorerPage() {
       return;
     }
 
+    const askBattersCrossed =
+      wicketState.type === WicketType.CAUGHT && catchStrikeLaw === "crossed";
+    if (askBattersCrossed && wicketState.battersCrossed === null) {
+      setError("Did the batters cross before the catch?");
+      return;
+    }
+
+    // Runs completed before the wicket go to the batter unless they were
+    // byes/leg-byes; on a wide every run is part of the wide.
+    // A retirement or a run out backing up is not a delivery, so it never
+    // carries runs or extras.
+    const betweenBalls = isRetirement(wicketState.type) || wicketBackingUp;
+    const { runsSource } = wicketState;
+    const runs = betweenBalls ? 0 : wicketState.runs;
+    const extra = betweenBalls ? null : wicketState.extra;
+    const ballInput: BallInput = {
+      runs_off_bat: runsSource === "bat" && extra !== ExtraType.WIDE ? runs : 0,
+      wicket: {
+        player_id: batterId,
+        type: wicketState.type,
+        is_striker_out: isStrikerOut,
+        ...(wicketBackingUp
+          ? { backing_up: true, dismissal_end: "non_striker" as const }
+          : wicketState.type === WicketType.RUN_OUT && wicketState.runOutEnd
+          ? { dismissal_end: wicketState.runOutEnd }
+          : {}),
+        ...(askBattersCrossed && wicketState.battersCrossed
+          ? { batters_crossed: true }
+          : {}),
+        ...(fielderLabel && wicketState.fielderId
+          ? { dismissed_by: wicketState.fielderId }
+          : {}),
+        ...(wicketState.type === WicketType.RUN_OUT &&
+        wicketState.fielderId &&
+        wicketState.assistId
+          ? { assisted_by: wicketState.assistId }
+          : {}),
+      },
+    };
+    if (extra === ExtraType.WIDE) {
+      ballInput.extras = { type: extra, runs: (match?.config?.wide_runs ?? 1) + runs };
+    } else if (extra === ExtraType.NO_BALL) {
+      ballInput.extras = {
+        type: extra,
+        runs: (match?.config?.no_ball_runs ?? 1) + (runsSource === "bat" ? 0 : runs),
+      };
+    } else if (runsSource !== "bat" && runs > 0) {
+      ballInput.extras = { type: runsSource, runs };
+    }
+
     try {
       setError("");
-      await recordBall(matchId, {
-        runs_off_bat: 0,
-        wicket: {
-          player_id: batterId,
-          type: wicketState.type,
-          is_striker_out: isStrikerOut,
-        },
-      });
-      setWicketState({ active: false, batterSide: null, type: null });
+      await recordBall(matchId, ballInput);
+      setWicketState(EMPTY_WICKET_STATE);
     } catch (err) {
       console.error("Record wicket error:", err);
-      setError("Failed to record wicket");
+      setError(err instanceof Error ? err.message : "Failed to record wicket");
     }
   };
 
+  const isFreeHit = !!liveState?.is_free_hit && !matchCompleted;
+  const catchStrikeLaw = match?.config.laws?.catch_strike ?? "new_batter";
+  const backingUpAllowed = !!match && allowsBackingUpRunOut(match.config);
+  const wicketBackingUp =
+    backingUpAllowed &&
+    wicketState.backingUp &&
+    wicketState.type === WicketType.RUN_OUT &&
+    wicketState.batterSide === "non-striker";
+  const fielderLabel = wicketState.type ? FIELDER_LABELS[wicketState.type] : undefined;
+
+  // Only offer dismissals that are possible for the chosen batter and delivery
+  const wicketOptions = WICKET_OPTIONS.filter((opt) =>
+    allowedDismissals(
+      wicketState.extra ?? undefined,
+      wicketState.batterSide !== "non-striker",
+      isFreeHit,
+      match?.config.house_rules
+    ).includes(opt.value)
+  );
+
   const availableNewBatters =
     battingTeam?.players.filter(
       (player) =>
@@ -490,8 +750,17 @@ export default function MatchScorerPage() {
         !dismissedBatterIds.includes(player.id)
     ) ?? [];
 
+  // A dismissal can leave either end empty (e.g. run out at the bowler's end)
+  const vacantEnd: CreaseEnd | null = !liveState
+    ? null
+    : liveState.striker_id === ""
+    ? "striker"
+    : liveState.non_striker_id === ""
+    ? "non_striker"
+    : null;
+
   const handleNewBatterSelect = async () => {
-    if (!matchId || !newBatterId) return;
+    if (!matchId || !newBatterId || !vacantEnd) return;
 
     if (matchCompleted) {
       setError("Match is already completed");
@@ -504,13 +773,17 @@ export default function MatchScorerPage() {
     try {
       setIsUpdatingBatter(true);
       setError("");
-      await updateDoc(doc(db, "matches", matchId), {
-        "live_state.striker_id": newBatterId,
-      });
+      if (retiredHurtIds.includes(newBatterId)) {
+        await resumeRetiredBatter(matchId, newBatterId);
+      } else {
+        await updateDoc(doc(db, "matches", matchId), {
+          [`live_state.${vacantEnd}_id`]: newBatterId,
+        });
+      }
       setNewBatterId("");
     } catch (err) {
       console.error("New batter error:", err);
-      setError("Failed to set new batter");
+      setError(err instanceof Error ? err.message : "Failed to set new batter");
     } finally {
       setIsUpdatingBatter(false);
     }
@@ -518,31 +791,58 @@ export default function MatchScorerPage() {
 
   // Check if innings is complete
   const totalOvers = match?.config?.total_overs ?? 0;
+  const currentPhase =
+    match && score && !matchCompleted && !superOverNumber
+      ? getCurrentPhase(match.config, score)
+      : null;
+  const ballsRemaining = score
+    ? Math.max(0, inningsOvers * ballsPerOver - getLegalBalls(score, ballsPerOver))
+    : 0;
+  // The engine closes the innings as it ends; matches scored before that was
+  // recorded fall back to the score
   const inningsComplete =
     !!score &&
-    (liveState?.current_innings ?? 1) === 1 &&
-    (score.overs >= totalOvers || inningsAllOut);
-  const inningsCompleteTitle = inningsAllOut
+    !isChasing &&
+    (!!liveState?.innings_closed ||
+      score.overs >= inningsOvers ||
+      inningsAllOut ||
+      !!liveState?.declared);
+  const inningsCompleteTitle = liveState?.declared
+    ? "Innings Declared!"
+    : inningsAllOut
     ? "All Out! Innings Complete."
     : "Innings Complete!";
-  const inningsCompleteDescription = inningsAllOut
+  const inningsCompleteDescription = liveState?.declared
+    ? `${battingTeam?.name || "The batting team"} declared.`
+    : inningsAllOut
     ? "All available batters have been dismissed."
-    : `${totalOvers} overs have been bowled.`;
+    : `${inningsOvers} over${inningsOvers === 1 ? " has" : "s have"} been bowled.`;
 
   const showNewBatterSelector =
     !!(
       liveState &&
-      liveState.striker_id === "" &&
+      vacantEnd &&
       !matchCompleted &&
       !inningsAllOut &&
       !inningsComplete &&
       availableNewBatters.length > 0
     );
 
+  // With "10 from one end" the bowler may carry on after the first set from an end
+  const sameEndContinues =
+    !!score &&
+    !!match &&
+    score.balls === 0 &&
+    score.overs > 0 &&
+    !endsChangeAfterOver(match.config, score.overs);
+
+  const bowlerBallsRemaining = (bowlerId: string) =>
+    match ? getBowlerBallsRemaining(match.config, playerStats, bowlerId) : null;
+
   const availableNewBowlers =
     bowlingTeam?.players.filter(
       (player) => 
-        player.id !== liveState?.bowler_id &&
+        (sameEndContinues || player.id !== liveState?.bowler_id) &&
         // Also exclude the last bowler who completed an over (prevents consecutive overs)
         player.id !== liveState?.last_bowler_id
     ) ?? [];
@@ -569,6 +869,11 @@ export default function MatchScorerPage() {
       setError("This bowler just completed an over. Please select a different bowler.");
       return;
     }
+
+    if (bowlerBallsRemaining(newBowlerId) === 0) {
+      setError("This bowler has bowled their quota. Please select a different bowler.");
+      return;
+    }
     
     try {
       setIsUpdatingBowler(true);
@@ -603,12 +908,16 @@ export default function MatchScorerPage() {
     try {
       setIsSwitchingInnings(true);
       setError("");
-      await switchToSecondInnings(matchId, {
-        striker_id: secondInningsStrikerId,
-        non_striker_id: secondInningsNonStrikerId,
-        bowler_id: secondInningsBowlerId,
-      });
-      setShowInningsSwitch(false);
+      await switchInnings(
+        matchId,
+        {
+          striker_id: secondInningsStrikerId,
+          non_striker_id: secondInningsNonStrikerId,
+          bowler_id: secondInningsBowlerId,
+        },
+        { enforceFollowOn }
+      );
+      setEnforceFollowOn(false);
       setSecondInningsStrikerId("");
       setSecondInningsNonStrikerId("");
       setSecondInningsBowlerId("");
@@ -620,6 +929,25 @@ export default function MatchScorerPage() {
     }
   };
 
+  const handleDeclare = async () => {
+    if (!matchId) return;
+
+    if (!confirm(`Declare ${battingTeam?.name || "the batting team"}'s innings closed?`)) {
+      return;
+    }
+
+    try {
+      setIsDeclaring(true);
+      setError("");
+      await declareInnings(matchId);
+    } catch (err) {
+      console.error("Declare error:", err);
+      setError(err instanceof Error ? err.message : "Failed to declare innings");
+    } finally {
+      setIsDeclaring(false);
+    }
+  };
+
   const handleEndMatch = async () => {
     if (!matchId) return;
     
@@ -644,6 +972,64 @@ export default function MatchScorerPage() {
     }
   };
 
+  const openReduceOversModal = () => {
+    const revisions = match?.revisions ?? [];
+    setReducedOvers(Math.max(1, totalOvers - 1));
+    setTargetMethod(revisions[revisions.length - 1]?.method ?? "average_run_rate");
+    setInterruptionReason("");
+    setShowReduceOversModal(true);
+  };
+
+  // What the target would become if overs were cut now (second innings, or
+  // the interval before it)
+  const cutState = liveState ? getCutState(liveState) : null;
+  const isInterval = !!cutState && cutState !== liveState;
+  const cutFirstInningsRuns = isInterval ? liveState?.score.runs ?? null : firstInningsRuns;
+  const revisedTargetPreview =
+    match &&
+    cutState &&
+    (isChasing || isInterval) &&
+    cutFirstInningsRuns != null &&
+    reducedOvers >= 1 &&
+    reducedOvers < totalOvers
+      ? calculateRevisedTarget(
+          {
+            config: { ...match.config, total_overs: reducedOvers },
+            revisions: [
+              ...(match.revisions ?? []),
+              buildOversRevision(cutState, match.config, reducedOvers, targetMethod),
+            ],
+          },
+          cutFirstInningsRuns,
+          targetMethod
+        )
+      : null;
+
+  const handleReduceOvers = async () => {
+    if (!matchId) return;
+
+    if (matchCompleted) {
+      setError("Match is already completed");
+      return;
+    }
+
+    try {
+      setIsReducingOvers(true);
+      setError("");
+      await interruptMatch(matchId, {
+        new_overs: reducedOvers,
+        method: targetMethod,
+        reason: interruptionReason,
+      });
+      setShowReduceOversModal(false);
+    } catch (err) {
+      console.error("Reduce overs error:", err);
+      setError(err instanceof Error ? err.message : "Failed to reduce overs");
+    } finally {
+      setIsReducingOvers(false);
+    }
+  };
+
   const handleCreateRematch = async () => {
     if (!matchId) return;
 
@@ -655,7 +1041,11 @@ export default function MatchScorerPage() {
     try {
       setIsCreatingRematch(true);
       setError("");
-      const newMatchId = await createRematchWithSameSquads(matchId, rematchOvers);
+      const newMatchId = await createRematchWithSameSquads(
+        matchId,
+        rematchOvers,
+        OVER_FORMATS[rematchFormatIndex]
+      );
       setShowRematchModal(false);
       router.push(`/match/new?matchId=${newMatchId}`);
     } catch (err) {
@@ -666,6 +1056,36 @@ export default function MatchScorerPage() {
     }
   };
 
+  const closeSuperOverModal = () => {
+    setShowSuperOverModal(false);
+    setSuperOverStrikerId("");
+    setSuperOverNonStrikerId("");
+    setSuperOverBowlerId("");
+  };
+
+  const handleStartSuperOver = async () => {
+    if (!matchId || !superOverStrikerId || !superOverNonStrikerId || !superOverBowlerId) {
+      setError("Please select all opening players for the super over");
+      return;
+    }
+
+    try {
+      setIsStartingSuperOver(true);
+      setError("");
+      await startSuperOver(matchId, {
+        striker_id: superOverStrikerId,
+        non_striker_id: superOverNonStrikerId,
+        bowler_id: superOverBowlerId,
+      });
+      closeSuperOverModal();
+    } catch (err) {
+      console.error("Super over error:", err);
+      setError(err instanceof Error ? err.message : "Failed to start super over");
+    } finally {
+      setIsStartingSuperOver(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-linear-to-br from-indigo-900 via-purple-900 to-pink-900">
@@ -689,12 +1109,122 @@ export default function MatchScorerPage() {
     );
   }
 
+  const isMatchOwner = !!user && match.owner_id === user.uid;
+
+  // The sidebar shows the innings in play, or a completed innings from the
+  // scorecard frozen into its summary (super-over innings included)
+  const scorecardSummaries = [
+    ...inningsSummaries,
+    ...(match.super_over?.innings_summaries ?? []),
+  ];
+  const viewedSummary =
+    scorecardSummaries.find(
+      (summary) => getSummaryInningsId(summary) === scorecardInnings
+    ) ?? null;
+  const scorecardBattingTeam = viewedSummary
+    ? match.teams[viewedSummary.batting_team_id]
+    : battingTeam;
+  const scorecardBowlingTeam = viewedSummary
+    ? match.teams[viewedSummary.bowling_team_id]
+    : bowlingTeam;
+  const scorecardStats: PlayerStatsState = viewedSummary
+    ? viewedSummary.player_stats ?? { batters: {}, bowlers: {} }
+    : playerStats;
+  const currentInningsTabLabel = formatInningsShortLabel(currentInnings, superOverNumber);
+
   const teamAName = match.teams.a.name;
   const teamBName = match.teams.b.name;
   const tossLabel = match.toss
     ? `${match.teams[match.toss.winner_id].name} chose to ${match.toss.decision}`
     : "Toss pending";
 
+  // The side that batted last bats first in the next super over
+  const superOverBattingTeam = resolveTeam(
+    match.teams,
+    liveState.second_batting_team_id ?? liveState.batting_team_id
+  );
+  const superOverBowlingTeam =
+    superOverBattingTeam === match.teams.a ? match.teams.b : match.teams.a;
+  // live_state now holds a super over, so label the match totals from the toss
+  const tossBattingTeamId: TeamId | null = match.toss
+    ? match.toss.decision === "bat"
+      ? match.toss.winner_id
+      : match.toss.winner_id === "a"
+      ? "b"
+      : "a"
+    : null;
+  // With two innings a side, the totals are each side's runs in both innings
+  const resultFirstTeamId = inningsSummaries[0]?.batting_team_id ?? tossBattingTeamId;
+  const resultFirstTeam =
+    (match.super_over || isTwoInningsMatch) && resultFirstTeamId
+      ? match.teams[resultFirstTeamId]
+      : firstInningsBattingTeam;
+  const resultSecondTeam =
+    (match.super_over || isTwoInningsMatch) && resultFirstTeamId
+      ? match.teams[resultFirstTeamId === "a" ? "b" : "a"]
+      : chasingTeam;
+  const canStartSuperOver =
+    matchCompleted &&
+    matchResult?.type === "tie" &&
+    getInningsPerSide(match.config) === 1 &&
+    !match.config.pairs &&
+    !!superOverBattingTeam;
+
+  // Lead of the side batting over the side fielding, across both innings
+  // (super overs stand apart from the match's innings)
+  const lead = getLead(liveState.super_over ? [] : inningsSummaries, liveState);
+  const describeLead = (teamName: string, teamLead: number) =>
+    teamLead > 0
+      ? `${teamName} lead by ${teamLead} run${teamLead === 1 ? "" : "s"}`
+      : teamLead < 0
+      ? `${teamName} trail by ${-teamLead} run${teamLead === -1 ? "" : "s"}`
+      : "Scores level";
+  const leadLabel =
+    isTwoInningsMatch && currentInnings > 1 && !isChasing
+      ? describeLead(battingTeam?.name || "Batting team", lead)
+      : null;
+
+  // What the side batting next faces once this innings closes
+  const nextInnings = currentInnings + 1;
+  const nextInningsIsChase = isFinalInnings(
+    { ...liveState, current_innings: nextInnings },
+    match.config
+  );
+  const nextBattingLead = enforceFollowOn ? lead : -lead;
+  // Penalty runs awarded to the fielding side open the next innings, and
+  // overs lost in a one-innings match revise the target before the chase
+  const carriedPenaltyRuns = liveState.fielding_penalty_runs ?? 0;
+  const breakRevision =
+    !superOverNumber && !isTwoInningsMatch
+      ? match.revisions?.[match.revisions.length - 1]
+      : undefined;
+  const nextRunsNeeded = !nextInningsIsChase
+    ? null
+    : breakRevision
+    ? calculateRevisedTarget(match, liveState.score.runs, breakRevision.method) -
+      carriedPenaltyRuns
+    : 1 - nextBattingLead;
+  const nextTarget = nextRunsNeeded != null ? nextRunsNeeded + carriedPenaltyRuns : null;
+  const nextRequiredRate =
+    nextRunsNeeded != null && inningsOvers > 0
+      ? getRunRate(Math.max(nextRunsNeeded, 0), inningsOvers * ballsPerOver, ballsPerOver)
+      : null;
+  const nextInningsNote =
+    nextRunsNeeded != null
+      ? `${nextInningsBattingTeam?.name || "The chasing team"} needs ${nextRunsNeeded} run${
+          nextRunsNeeded === 1 ? "" : "s"
+        } to win`
+      : describeLead(nextInningsBattingTeam?.name || "The next batting team", nextBattingLead);
+  const followOnAvailable = canEnforceFollowOn(match.config, inningsSummaries, liveState);
+  const nextInningsLabel = formatInningsLabel(nextInnings);
+  const houseRules = match.config.house_rules;
+  const houseRuleLabels = describeHouseRules(houseRules);
+
+  const currentInningsId = getInningsId(match);
+  const editableInningsIds = getPlayedInningsIds(match);
+  const selectedEditInningsId = editInningsId ?? currentInningsId;
+  const ledgerRefreshKey = `${liveState.last_ball_id ?? ""}:${score.runs}/${score.wickets}:${score.overs}.${score.balls}`;
+
   const keypadDisabled =
     matchCompleted ||
     showNewBatterSelector ||
@@ -726,6 +1256,23 @@ export default function MatchScorerPage() {
           </div>
           <div className="mt-3 sm:mt-0 flex items-center gap-4">
             <div className="text-white/80 text-sm">{tossLabel}</div>
+            {isTwoInningsMatch && match?.status === MatchStatus.LIVE && !isChasing && !liveState.declared && (
+              <button
+                onClick={handleDeclare}
+                disabled={isDeclaring}
+                className="px-4 py-2 bg-amber-500/20 border border-amber-400/50 rounded-xl text-amber-200 font-semibold hover:bg-amber-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                {isDeclaring ? "Declaring..." : "Declare"}
+              </button>
+            )}
+            {match?.status === MatchStatus.LIVE && !superOverNumber && !isTwoInningsMatch && (
+              <button
+                onClick={openReduceOversModal}
+                className="px-4 py-2 bg-sky-500/20 border border-sky-400/50 rounded-xl text-sky-200 font-semibold hover:bg-sky-500/30 transition-all"
+              >
+                Reduce Overs
+              </button>
+            )}
             {match?.status === MatchStatus.LIVE && (
               <button
                 onClick={handleEndMatch}
@@ -744,24 +1291,71 @@ export default function MatchScorerPage() {
             <div className="flex-1">
               <p className="uppercase text-white/60 text-xs tracking-[0.2em] mb-2">
                 Current Score
+                {superOverNumber && !matchCompleted && (
+                  <span className="ml-2 text-amber-300">
+                    • Super Over{superOverNumber > 1 ? ` ${superOverNumber}` : ""}
+                  </span>
+                )}
               </p>
               <div className="text-6xl font-bold tracking-tight">
                 {score.runs}/{score.wickets}
               </div>
-              {isSecondInnings && liveState?.first_innings_total !== undefined && (
+              {isChasing && target != null && (
                 <div className="mt-2">
                   <p className="text-white/70 text-sm">
-                    Target ({firstInningsBattingTeam?.name || "First Innings"}):{" "}
-                    <span className="font-semibold text-yellow-400">{liveState.first_innings_total + 1}</span>
+                    {isTargetRevised ? "Revised target" : "Target"} ({firstInningsBattingTeam?.name || "First Innings"}):{" "}
+                    <span className="font-semibold text-yellow-400">{target}</span>
                     {" • "}
                     Need ({chasingTeam?.name || "Chasing Team"}):{" "}
                     <span className="font-semibold text-yellow-400">
-                      {Math.max(0, liveState.first_innings_total + 1 - score.runs)}
+                      {Math.max(0, target - score.runs)}
                     </span>{" "}
-                    runs
+                    runs from {ballsRemaining} ball{ballsRemaining === 1 ? "" : "s"}
                   </p>
                 </div>
               )}
+              {!superOverNumber && inningsSummaries.length > 0 && (
+                <div className="mt-2 space-y-1">
+                  {inningsSummaries.map((summary) => (
+                    <p key={summary.innings} className="text-white/60 text-xs">
+                      {formatInningsLabel(summary.innings)}: {match.teams[summary.batting_team_id].name}{" "}
+                      {summary.score.runs}/{summary.score.wickets}
+                      {summary.declared ? "d" : ""} (
+                      {formatOvers(getLegalBalls(summary.score, ballsPerOver), ballsPerOver)} ov)
+                      {summary.follow_on ? " • following on" : ""}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {(match.revisions ?? []).length > 0 && (
+                <div className="mt-2 space-y-1">
+                  {(match.revisions ?? []).map((revision) => (
+                    <p key={revision.revised_at} className="text-white/50 text-xs">
+                      Innings {revision.innings}: {revision.previous_overs} →{" "}
+                      {revision.new_overs} overs at{" "}
+                      {formatOvers(revision.balls_bowled, ballsPerOver)}
+                      {revision.reason ? ` (${revision.reason})` : ""}
+                      {revision.target != null &&
+                        ` • target ${revision.target} (${TARGET_METHOD_SHORT_LABELS[revision.method]})`}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {houseRuleLabels.length > 0 && (
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <span className="text-white/50 text-xs uppercase tracking-widest">
+                    House rules
+                  </span>
+                  {houseRuleLabels.map((label) => (
+                    <span
+                      key={label}
+                      className="px-2 py-0.5 rounded-full bg-emerald-500/20 border border-emerald-400/40 text-emerald-200 text-xs"
+                    >
+                      {label}
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
             <div className="flex gap-6 text-white/80 text-sm">
               <div>
@@ -771,14 +1365,32 @@ export default function MatchScorerPage() {
                 <p className="text-lg font-semibold">
                   {score.overs}.{score.balls}
                 </p>
+                {ballsPerOver !== DEFAULT_BALLS_PER_OVER && (
+                  <p className="text-white/50 text-xs">
+                    {formatOverFormat(match.config)}
+                  </p>
+                )}
               </div>
+              {currentPhase && (
+                <div>
+                  <p className="text-white/50 text-xs uppercase tracking-widest">
+                    Phase
+                  </p>
+                  <p className="text-lg font-semibold text-sky-300">
+                    {PHASE_LABELS[currentPhase.name]}
+                  </p>
+                  <p className="text-white/50 text-xs">
+                    Overs {currentPhase.start_over}-{currentPhase.end_over}
+                  </p>
+                </div>
+              )}
               <div>
                 <p className="text-white/50 text-xs uppercase tracking-widest">
                   CRR
                 </p>
                 <p className="text-lg font-semibold">{crr}</p>
               </div>
-              {isSecondInnings && rrr !== null && (
+              {isChasing && rrr !== null && (
                 <div>
                   <p className="text-white/50 text-xs uppercase tracking-widest">
                     RRR
@@ -790,17 +1402,19 @@ export default function MatchScorerPage() {
             <div className="text-white/60 text-xs uppercase tracking-widest">
               {matchCompleted
                 ? "Match Completed"
-                : isSecondInnings
-                ? "Second Innings • Chasing"
-                : "First Innings • Setting Target"}
+                : `${
+                    superOverNumber ? "Super Over" : formatInningsLabel(currentInnings)
+                  } • ${
+                    isChasing ? "Chasing" : isTwoInningsMatch ? "Batting" : "Setting Target"
+                  }`}
               <div className="text-white text-sm normal-case mt-1">
                 {matchCompleted
                   ? matchResult?.summary || "Final result"
-                  : isSecondInnings
+                  : isChasing
                   ? `${chasingTeam?.name || battingTeam?.name} chasing ${
                       firstInningsBattingTeam?.name || "target"
                     }`
-                  : `${battingTeam?.name || "Batting team"} batting first`}
+                  : leadLabel ?? `${battingTeam?.name || "Batting team"} batting first`}
               </div>
             </div>
           </div>
@@ -817,6 +1431,9 @@ export default function MatchScorerPage() {
                   <p className="text-white/70">
                     {strikerStats?.runs ?? 0} ({strikerStats?.balls ?? 0})
                   </p>
+                  <p className="text-xs text-white/50">
+                    4s {strikerStats?.fours ?? 0} • 6s {strikerStats?.sixes ?? 0}
+                  </p>
                 </>
               ) : (
                 <p className="text-white/60">Awaiting batter</p>
@@ -834,7 +1451,12 @@ export default function MatchScorerPage() {
                     {nonStrikerStats?.runs ?? 0} (
                     {nonStrikerStats?.balls ?? 0})
                   </p>
+                  <p className="text-xs text-white/50">
+                    4s {nonStrikerStats?.fours ?? 0} • 6s {nonStrikerStats?.sixes ?? 0}
+                  </p>
                 </>
+              ) : battingAlone ? (
+                <p className="text-white/60">Last man batting alone</p>
               ) : (
                 <p className="text-white/60">Awaiting batter</p>
               )}
@@ -848,8 +1470,8 @@ export default function MatchScorerPage() {
                 <>
                   <p className="text-lg font-semibold">{bowler.name}</p>
                   <p className="text-white/70">
-                    {Math.floor((bowlerStats?.balls ?? 0) / 6)}.
-                    {(bowlerStats?.balls ?? 0) % 6} •{" "}
+                    {Math.floor((bowlerStats?.balls ?? 0) / ballsPerOver)}.
+                    {(bowlerStats?.balls ?? 0) % ballsPerOver} •{" "}
                     {bowlerStats?.runs ?? 0}/{bowlerStats?.wickets ?? 0}
                   </p>
                 </>
@@ -878,8 +1500,8 @@ export default function MatchScorerPage() {
               <div>
                 <p className="text-xl font-semibold">{matchResult.summary}</p>
                 <p className="text-white/70 text-sm">
-                  {firstInningsBattingTeam?.name || "Team"}: {matchResult.first_innings_runs} runs •{" "}
-                  {chasingTeam?.name || "Team"}: {matchResult.second_innings_runs} runs
+                  {resultFirstTeam?.name || "Team"}: {matchResult.first_innings_runs} runs •{" "}
+                  {resultSecondTeam?.name || "Team"}: {matchResult.second_innings_runs} runs
                 </p>
               </div>
             </div>
@@ -888,6 +1510,24 @@ export default function MatchScorerPage() {
                 Margin: <span className="font-semibold text-white">{matchResult.margin}</span>
               </p>
             )}
+            {(matchResult.super_overs ?? []).map((superOver) => (
+              <p key={superOver.number} className="text-white/70 text-sm">
+                Super Over{matchResult.super_overs!.length > 1 ? ` ${superOver.number}` : ""}:{" "}
+                {match.teams[superOver.first_innings.team_id].name}{" "}
+                {superOver.first_innings.runs}/{superOver.first_innings.wickets} •{" "}
+                {match.teams[superOver.second_innings.team_id].name}{" "}
+                {superOver.second_innings.runs}/{superOver.second_innings.wickets}
+              </p>
+            ))}
+            {canStartSuperOver && (
+              <button
+                onClick={() => setShowSuperOverModal(true)}
+                className="w-full px-6 py-3 bg-linear-to-r from-amber-500 to-orange-500 rounded-xl font-semibold hover:shadow-lg transform hover:scale-[1.02] active:scale-[0.98] transition-all duration-200"
+              >
+                {matchResult.super_overs?.length ? "Play Another Super Over" : "Start Super Over"}
+              </button>
+            )}
+            {matchId && <PhaseBreakdown matchId={matchId} match={match} />}
             <div className="flex flex-col sm:flex-row gap-3">
               <button
                 onClick={() => router.push("/match/new")}
@@ -909,7 +1549,7 @@ export default function MatchScorerPage() {
         {!matchCompleted && showNewBatterSelector && (
           <div className="backdrop-blur-xl bg-white/10 rounded-3xl border border-white/20 p-6 text-white space-y-4">
             <p className="text-lg font-semibold">
-              Select New Batter (Striker)
+              Select New Batter ({vacantEnd === "striker" ? "Striker" : "Non-Striker"})
             </p>
             <div className="flex flex-col sm:flex-row gap-4">
               <select
@@ -921,6 +1561,7 @@ export default function MatchScorerPage() {
                 {availableNewBatters.map((player) => (
                   <option key={player.id} value={player.id}>
                     {player.name}
+                    {retiredHurtIds.includes(player.id) ? " (retired hurt – resume)" : ""}
                   </option>
                 ))}
               </select>
@@ -935,56 +1576,85 @@ export default function MatchScorerPage() {
           </div>
         )}
 
-        {/* Innings Complete Message */}
-        {!matchCompleted && inningsComplete && !showInningsSwitch && (
-          <div className="backdrop-blur-xl bg-linear-to-r from-green-500/20 to-blue-500/20 rounded-3xl border border-green-400/50 p-6 text-white space-y-4">
-            <div className="flex items-center gap-3">
-              <svg
-                className="w-6 h-6 text-green-400"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
-                />
-              </svg>
-              <p className="text-xl font-semibold">
-                {inningsCompleteTitle}
+        {/* Innings Break: the closed innings, what the next side faces, and its openers */}
+        {!matchCompleted && inningsComplete && (
+          <div className="backdrop-blur-xl bg-linear-to-r from-green-500/20 to-blue-500/20 rounded-3xl border border-green-400/50 p-6 text-white space-y-6">
+            <div className="space-y-2">
+              <p className="text-xs uppercase tracking-[0.3em] text-white/60">
+                Innings Break
+              </p>
+              <div className="flex items-center gap-3">
+                <svg
+                  className="w-6 h-6 text-green-400"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
+                  />
+                </svg>
+                <p className="text-xl font-semibold">
+                  {inningsCompleteTitle}
+                </p>
+              </div>
+              <p className="text-white/80">
+                {inningsCompleteDescription} The batting team has scored {score?.runs || 0} runs for {score?.wickets || 0} wickets.
+              </p>
+              <p className="text-white/60 text-sm">
+                {nextInningsNote}
               </p>
             </div>
-            <p className="text-white/80">
-              {inningsCompleteDescription} The batting team has scored {score?.runs || 0} runs for {score?.wickets || 0} wickets.
-            </p>
-            <p className="text-white/60 text-sm mb-4">
-              Target: {score?.runs || 0} runs
-            </p>
-            <button
-              onClick={() => setShowInningsSwitch(true)}
-              className="w-full py-3 bg-linear-to-r from-purple-500 to-pink-500 rounded-xl font-semibold hover:shadow-lg transform hover:scale-[1.02] active:scale-[0.98] transition-all duration-200"
-            >
-              Switch to Second Innings
-            </button>
-          </div>
-        )}
 
-        {/* Second Innings Opening Players Selection */}
-        {!matchCompleted && showInningsSwitch && (
-          <div className="backdrop-blur-xl bg-white/10 rounded-3xl border border-white/20 p-6 text-white space-y-6">
+            {nextTarget != null && nextRunsNeeded != null && (
+              <div className="grid grid-cols-3 gap-3">
+                <div className="px-4 py-3 rounded-2xl border border-white/10 bg-white/5">
+                  <p className="text-xs text-white/60">Target</p>
+                  <p className="text-2xl font-bold">{nextTarget}</p>
+                </div>
+                <div className="px-4 py-3 rounded-2xl border border-white/10 bg-white/5">
+                  <p className="text-xs text-white/60">To Win</p>
+                  <p className="text-2xl font-bold">{nextRunsNeeded}</p>
+                  <p className="text-xs text-white/60">
+                    from {inningsOvers * ballsPerOver} balls
+                  </p>
+                </div>
+                <div className="px-4 py-3 rounded-2xl border border-white/10 bg-white/5">
+                  <p className="text-xs text-white/60">Required Rate</p>
+                  <p className="text-2xl font-bold">
+                    {nextRequiredRate != null ? nextRequiredRate.toFixed(2) : "-"}
+                  </p>
+                </div>
+              </div>
+            )}
+
             <div>
-              <h3 className="text-xl font-semibold mb-2">Second Innings - Select Opening Players</h3>
-              <p className="text-white/70 text-sm mb-4">
-                {secondInningsBattingTeam?.name} needs to chase {score?.runs || 0} runs
-              </p>
+              <h3 className="text-lg font-semibold mb-2">{nextInningsLabel} - Select Opening Players</h3>
+              {followOnAvailable && (
+                <label className="flex items-center gap-3 text-sm text-white/90">
+                  <input
+                    type="checkbox"
+                    checked={enforceFollowOn}
+                    onChange={(e) => {
+                      setEnforceFollowOn(e.target.checked);
+                      setSecondInningsStrikerId("");
+                      setSecondInningsNonStrikerId("");
+                      setSecondInningsBowlerId("");
+                    }}
+                    className="w-4 h-4 accent-purple-500"
+                  />
+                  Enforce the follow-on ({battingTeam?.name} bat again)
+                </label>
+              )}
             </div>
 
             <div className="space-y-4">
               <div>
                 <label className="block text-white/90 text-sm font-medium mb-2">
-                  Striker ({secondInningsBattingTeam?.name})
+                  Striker ({nextInningsBattingTeam?.name})
                 </label>
                 <select
                   value={secondInningsStrikerId}
@@ -992,7 +1662,7 @@ export default function MatchScorerPage() {
                   className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
                 >
                   <option value="">Choose striker</option>
-                  {secondInningsBattingTeam?.players.map((player) => (
+                  {nextInningsBattingTeam?.players.map((player) => (
                     <option key={player.id} value={player.id}>
                       {player.name}
                     </option>
@@ -1002,7 +1672,7 @@ export default function MatchScorerPage() {
 
               <div>
                 <label className="block text-white/90 text-sm font-medium mb-2">
-                  Non-Striker ({secondInningsBattingTeam?.name})
+                  Non-Striker ({nextInningsBattingTeam?.name})
                 </label>
                 <select
                   value={secondInningsNonStrikerId}
@@ -1010,7 +1680,7 @@ export default function MatchScorerPage() {
                   className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
                 >
                   <option value="">Choose non-striker</option>
-                  {secondInningsBattingTeam?.players
+                  {nextInningsBattingTeam?.players
                     .filter((p) => p.id !== secondInningsStrikerId)
                     .map((player) => (
                       <option key={player.id} value={player.id}>
@@ -1022,7 +1692,7 @@ export default function MatchScorerPage() {
 
               <div>
                 <label className="block text-white/90 text-sm font-medium mb-2">
-                  Bowler ({secondInningsBowlingTeam?.name})
+                  Bowler ({nextInningsBowlingTeam?.name})
                 </label>
                 <select
                   value={secondInningsBowlerId}
@@ -1030,7 +1700,7 @@ export default function MatchScorerPage() {
                   className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
                 >
                   <option value="">Choose bowler</option>
-                  {secondInningsBowlingTeam?.players.map((player) => (
+                  {nextInningsBowlingTeam?.players.map((player) => (
                     <option key={player.id} value={player.id}>
                       {player.name}
                     </option>
@@ -1039,32 +1709,18 @@ export default function MatchScorerPage() {
               </div>
             </div>
 
-            <div className="flex gap-3">
-              <button
-                onClick={() => {
-                  setShowInningsSwitch(false);
-                  setSecondInningsStrikerId("");
-                  setSecondInningsNonStrikerId("");
-                  setSecondInningsBowlerId("");
-                }}
-                disabled={isSwitchingInnings}
-                className="flex-1 px-6 py-3 bg-white/5 border border-white/20 rounded-xl font-semibold hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleSwitchInnings}
-                disabled={
-                  !secondInningsStrikerId ||
-                  !secondInningsNonStrikerId ||
-                  !secondInningsBowlerId ||
-                  isSwitchingInnings
-                }
-                className="flex-1 px-6 py-3 bg-linear-to-r from-purple-500 to-pink-500 rounded-xl font-semibold disabled:opacity-50 disabled:cursor-not-allowed hover:shadow-lg transform hover:scale-[1.02] active:scale-[0.98] transition-all duration-200"
-              >
-                {isSwitchingInnings ? "Switching..." : "Start Second Innings"}
-              </button>
-            </div>
+            <button
+              onClick={handleSwitchInnings}
+              disabled={
+                !secondInningsStrikerId ||
+                !secondInningsNonStrikerId ||
+                !secondInningsBowlerId ||
+                isSwitchingInnings
+              }
+              className="w-full py-3 bg-linear-to-r from-purple-500 to-pink-500 rounded-xl font-semibold disabled:opacity-50 disabled:cursor-not-allowed hover:shadow-lg transform hover:scale-[1.02] active:scale-[0.98] transition-all duration-200"
+            >
+              {isSwitchingInnings ? "Switching..." : `Start ${nextInningsLabel}`}
+            </button>
           </div>
         )}
 
@@ -1084,11 +1740,23 @@ export default function MatchScorerPage() {
                 className="flex-1 px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
               >
                 <option value="">Choose bowler</option>
-                {availableNewBowlers.map((player) => (
-                  <option key={player.id} value={player.id}>
-                    {player.name}
-                  </option>
-                ))}
+                {availableNewBowlers.map((player) => {
+                  const remaining = bowlerBallsRemaining(player.id);
+                  return (
+                    <option
+                      key={player.id}
+                      value={player.id}
+                      disabled={remaining === 0}
+                    >
+                      {player.name}
+                      {remaining === 0
+                        ? " (quota bowled)"
+                        : remaining != null
+                          ? ` (${formatOvers(remaining, ballsPerOver)} ov left)`
+                          : ""}
+                    </option>
+                  );
+                })}
               </select>
               <button
                 onClick={handleNewBowlerSelect}
@@ -1109,9 +1777,7 @@ export default function MatchScorerPage() {
             </p>
             {wicketState.active ? (
               <button
-                onClick={() =>
-                  setWicketState({ active: false, batterSide: null, type: null })
-                }
+                onClick={() => setWicketState(EMPTY_WICKET_STATE)}
                 className="text-xs text-white/70 underline"
               >
                 Cancel
@@ -1119,6 +1785,17 @@ export default function MatchScorerPage() {
             ) : null}
           </div>
 
+          {isFreeHit && (
+            <div className="px-4 py-3 rounded-2xl bg-linear-to-r from-yellow-400/30 to-orange-500/30 border border-yellow-300/60 flex items-center justify-between gap-3">
+              <span className="text-lg font-bold tracking-widest text-yellow-100">
+                FREE HIT
+              </span>
+              <span className="text-xs text-yellow-50/80 text-right">
+                The batter can only be run out on this delivery
+              </span>
+            </div>
+          )}
+
           {!wicketState.active ? (
             <div className="space-y-4">
               {/* Runs */}
@@ -1127,13 +1804,30 @@ export default function MatchScorerPage() {
                   <button
                     key={run}
                     disabled={keypadDisabled}
-                    onClick={() => handleRecordRun(run)}
+                    onClick={() =>
+                      handleRecordRun(run, run === 4 || run === 6 ? { boundary: true } : {})
+                    }
                     className="py-4 rounded-2xl bg-white/10 border border-white/20 text-2xl font-semibold hover:bg-white/20 disabled:opacity-40 disabled:cursor-not-allowed"
                   >
                     {run}
                   </button>
                 ))}
               </div>
+              {houseRules?.boundary_out && !isFreeHit && (
+                <p className="text-xs text-emerald-200/80">
+                  {BOUNDARY_OUT_LABELS[houseRules.boundary_out]}:{" "}
+                  {houseRules.boundary_out === "six" ? "a 6" : "a 4 or 6"} dismisses the striker
+                </p>
+              )}
+              {houseRules?.object_runs != null && (
+                <button
+                  disabled={keypadDisabled}
+                  onClick={() => handleRecordRun(houseRules.object_runs!, { hit_object: true })}
+                  className="w-full py-3 rounded-2xl bg-emerald-500/15 border border-emerald-400/40 text-sm font-semibold hover:bg-emerald-500/25 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Hit the Object (+{houseRules.object_runs})
+                </button>
+              )}
 
               {/* Extras */}
               <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
@@ -1151,8 +1845,74 @@ export default function MatchScorerPage() {
                 ))}
               </div>
 
-              {/* Wicket + Undo */}
-              <div className="grid grid-cols-2 gap-3">
+              {/* Penalty runs (not a delivery) */}
+              {!showPenaltyForm ? (
+                <button
+                  onClick={openPenaltyForm}
+                  disabled={matchCompleted}
+                  className="w-full py-2 rounded-2xl bg-white/5 border border-white/15 text-xs font-semibold uppercase tracking-widest hover:bg-white/15 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Award Penalty Runs
+                </button>
+              ) : (
+                <div className="p-4 rounded-2xl border border-white/20 bg-white/5 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-semibold">Penalty Runs</p>
+                    <button
+                      onClick={() => setShowPenaltyForm(false)}
+                      className="text-xs text-white/70 underline"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    {[
+                      { team: battingTeam, label: "Batting" },
+                      { team: bowlingTeam, label: "Fielding" },
+                    ].map(({ team, label }) =>
+                      team ? (
+                        <button
+                          key={team.id}
+                          onClick={() => setPenaltyTeamId(team.id as TeamId)}
+                          className={`py-2 rounded-xl border text-sm ${
+                            penaltyTeamId === team.id
+                              ? "bg-white/30 border-white/60"
+                              : "bg-white/5 border-white/20"
+                          }`}
+                        >
+                          {team.name} ({label})
+                        </button>
+                      ) : null
+                    )}
+                  </div>
+                  <div className="flex gap-3">
+                    <input
+                      type="number"
+                      min={1}
+                      value={penaltyRuns}
+                      onChange={(e) => setPenaltyRuns(parseInt(e.target.value) || 0)}
+                      className="w-24 px-3 py-2 bg-white/5 border border-white/20 rounded-xl text-white text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={penaltyReason}
+                      onChange={(e) => setPenaltyReason(e.target.value)}
+                      placeholder="Reason (e.g. ball hit fielder's helmet)"
+                      className="flex-1 px-3 py-2 bg-white/5 border border-white/20 rounded-xl text-white text-sm placeholder-white/40"
+                    />
+                  </div>
+                  <button
+                    onClick={handleAwardPenalty}
+                    disabled={!penaltyTeamId || !penaltyReason.trim() || isAwardingPenalty}
+                    className="w-full py-2 rounded-xl bg-linear-to-r from-purple-500 to-pink-500 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isAwardingPenalty ? "Awarding..." : `Award ${penaltyRuns} Penalty Runs`}
+                  </button>
+                </div>
+              )}
+
+              {/* Wicket + Undo + Redo */}
+              <div className="grid grid-cols-3 gap-3">
                 <button
                   onClick={startWicketFlow}
                   disabled={keypadDisabled}
@@ -1166,15 +1926,57 @@ export default function MatchScorerPage() {
                 >
                   ↺ UNDO
                 </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={matchCompleted}
+                  className="py-4 rounded-2xl bg-sky-400/30 border border-sky-300/60 text-sky-50 font-semibold hover:bg-sky-400/50 disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  ↻ REDO
+                </button>
               </div>
+
+              {matchId && (
+                <UndoRedoHistory
+                  matchId={matchId}
+                  inningsId={currentInningsId}
+                  refreshKey={ledgerRefreshKey}
+                />
+              )}
             </div>
           ) : (
             <div className="space-y-4">
+              <div>
+                <p className="text-sm text-white/70 mb-2">
+                  Delivery
+                </p>
+                <div className="grid grid-cols-3 gap-3">
+                  {WICKET_EXTRA_OPTIONS.map((opt) => (
+                    <button
+                      key={opt.label}
+                      onClick={() =>
+                        setWicketState((prev) => ({
+                          ...prev,
+                          extra: opt.value,
+                          runsSource: opt.value === ExtraType.WIDE ? "bat" : prev.runsSource,
+                        }))
+                      }
+                      className={`py-3 rounded-2xl border text-sm ${
+                        wicketState.extra === opt.value
+                          ? "bg-white/30 border-white/60"
+                          : "bg-white/5 border-white/20"
+                      }`}
+                    >
+                      {opt.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               <div>
                 <p className="text-sm text-white/70 mb-2">
                   Who is out?
                 </p>
-                <div className="grid grid-cols-2 gap-3">
+                <div className={`grid ${nonStriker ? "grid-cols-2" : "grid-cols-1"} gap-3`}>
                   <button
                     onClick={() =>
                       setWicketState((prev) => ({
@@ -1190,21 +1992,23 @@ export default function MatchScorerPage() {
                   >
                     Striker
                   </button>
-                  <button
-                    onClick={() =>
-                      setWicketState((prev) => ({
-                        ...prev,
-                        batterSide: "non-striker",
-                      }))
-                    }
-                    className={`py-3 rounded-2xl border ${
-                      wicketState.batterSide === "non-striker"
-                        ? "bg-white/30 border-white/60"
-                        : "bg-white/5 border-white/20"
-                    }`}
-                  >
-                    Non-Striker
-                  </button>
+                  {nonStriker && (
+                    <button
+                      onClick={() =>
+                        setWicketState((prev) => ({
+                          ...prev,
+                          batterSide: "non-striker",
+                        }))
+                      }
+                      className={`py-3 rounded-2xl border ${
+                        wicketState.batterSide === "non-striker"
+                          ? "bg-white/30 border-white/60"
+                          : "bg-white/5 border-white/20"
+                      }`}
+                    >
+                      Non-Striker
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -1213,7 +2017,7 @@ export default function MatchScorerPage() {
                   Dismissal Type
                 </p>
                 <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
-                  {WICKET_OPTIONS.map((opt) => (
+                  {wicketOptions.map((opt) => (
                     <button
                       key={opt.value}
                       onClick={() =>
@@ -1234,6 +2038,184 @@ export default function MatchScorerPage() {
                 </div>
               </div>
 
+              {fielderLabel && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <select
+                    value={wicketState.fielderId}
+                    onChange={(e) =>
+                      setWicketState((prev) => ({
+                        ...prev,
+                        fielderId: e.target.value,
+                      }))
+                    }
+                    className="px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-400"
+                  >
+                    <option value="">{fielderLabel}…</option>
+                    {bowlingTeam?.players.map((player) => (
+                      <option key={player.id} value={player.id}>
+                        {player.name}
+                      </option>
+                    ))}
+                  </select>
+                  {wicketState.type === WicketType.RUN_OUT && (
+                    <select
+                      value={wicketState.assistId}
+                      disabled={!wicketState.fielderId}
+                      onChange={(e) =>
+                        setWicketState((prev) => ({
+                          ...prev,
+                          assistId: e.target.value,
+                        }))
+                      }
+                      className="px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white text-sm disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-400"
+                    >
+                      <option value="">Direct hit / no assist</option>
+                      {bowlingTeam?.players
+                        .filter((player) => player.id !== wicketState.fielderId)
+                        .map((player) => (
+                          <option key={player.id} value={player.id}>
+                            Thrown by {player.name}
+                          </option>
+                        ))}
+                    </select>
+                  )}
+                </div>
+              )}
+
+              {wicketState.type === WicketType.CAUGHT && catchStrikeLaw === "crossed" && (
+                <div>
+                  <p className="text-sm text-white/70 mb-2">
+                    Batters crossed?
+                  </p>
+                  <div className="grid grid-cols-2 gap-3">
+                    {[
+                      { label: "Crossed", value: true },
+                      { label: "Not Crossed", value: false },
+                    ].map((opt) => (
+                      <button
+                        key={opt.label}
+                        onClick={() =>
+                          setWicketState((prev) => ({
+                            ...prev,
+                            battersCrossed: opt.value,
+                          }))
+                        }
+                        className={`py-3 rounded-2xl border text-sm ${
+                          wicketState.battersCrossed === opt.value
+                            ? "bg-white/30 border-white/60"
+                            : "bg-white/5 border-white/20"
+                        }`}
+                      >
+                        {opt.label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-white/50 mt-2">
+                    The not-out batter keeps the end they reached; the new batter goes to the other end.
+                  </p>
+                </div>
+              )}
+
+              {wicketState.type === WicketType.RUN_OUT &&
+                wicketState.batterSide === "non-striker" &&
+                backingUpAllowed && (
+                  <label className="flex items-center gap-3 text-sm text-white/90">
+                    <input
+                      type="checkbox"
+                      checked={wicketState.backingUp}
+                      onChange={(e) =>
+                        setWicketState((prev) => ({
+                          ...prev,
+                          backingUp: e.target.checked,
+                          runOutEnd: e.target.checked ? "non_striker" : prev.runOutEnd,
+                        }))
+                      }
+                      className="w-4 h-4 accent-purple-500"
+                    />
+                    Backing up: left the crease before the ball was bowled
+                  </label>
+                )}
+
+              {wicketState.type === WicketType.RUN_OUT && !wicketBackingUp && (
+                <div>
+                  <p className="text-sm text-white/70 mb-2">
+                    Run out at
+                  </p>
+                  <div className="grid grid-cols-2 gap-3">
+                    {(
+                      [
+                        { label: "Striker's End", value: "striker" },
+                        { label: "Bowler's End", value: "non_striker" },
+                      ] as const
+                    ).map((opt) => (
+                      <button
+                        key={opt.value}
+                        onClick={() =>
+                          setWicketState((prev) => ({
+                            ...prev,
+                            runOutEnd: opt.value,
+                          }))
+                        }
+                        className={`py-3 rounded-2xl border text-sm ${
+                          wicketState.runOutEnd === opt.value
+                            ? "bg-white/30 border-white/60"
+                            : "bg-white/5 border-white/20"
+                        }`}
+                      >
+                        {opt.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {!isRetirement(wicketState.type) && !wicketBackingUp && (
+                <div>
+                  <p className="text-sm text-white/70 mb-2">
+                    Runs completed
+                  </p>
+                  <div className="grid grid-cols-4 gap-3">
+                    {[0, 1, 2, 3].map((run) => (
+                      <button
+                        key={run}
+                        onClick={() =>
+                          setWicketState((prev) => ({ ...prev, runs: run }))
+                        }
+                        className={`py-3 rounded-2xl border text-sm ${
+                          wicketState.runs === run
+                            ? "bg-white/30 border-white/60"
+                            : "bg-white/5 border-white/20"
+                        }`}
+                      >
+                        {run}
+                      </button>
+                    ))}
+                  </div>
+                  {wicketState.runs > 0 && wicketState.extra !== ExtraType.WIDE && (
+                    <div className="grid grid-cols-3 gap-3 mt-3">
+                      {WICKET_RUNS_SOURCES.map((opt) => (
+                        <button
+                          key={opt.value}
+                          onClick={() =>
+                            setWicketState((prev) => ({
+                              ...prev,
+                              runsSource: opt.value,
+                            }))
+                          }
+                          className={`py-2 rounded-2xl border text-xs ${
+                            wicketState.runsSource === opt.value
+                              ? "bg-white/30 border-white/60"
+                              : "bg-white/5 border-white/20"
+                          }`}
+                        >
+                          {opt.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               <button
                 onClick={completeWicket}
                 className="w-full py-4 rounded-2xl bg-red-500/60 border border-red-400 text-white font-semibold hover:bg-red-500"
@@ -1244,6 +2226,47 @@ export default function MatchScorerPage() {
           )}
         </div>
 
+        {/* Ball-by-ball corrections */}
+        <div className="backdrop-blur-xl bg-white/10 rounded-3xl border border-white/20 p-6 text-white space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-lg font-semibold">Ball-by-Ball</p>
+            <button
+              onClick={() => setShowBallEditor((prev) => !prev)}
+              className="text-xs text-white/70 underline"
+            >
+              {showBallEditor ? "Hide" : "Fix a past ball"}
+            </button>
+          </div>
+          {showBallEditor && matchId && (
+            <>
+              {editableInningsIds.length > 1 && (
+                <div className="flex gap-2">
+                  {editableInningsIds.map((inningsId) => (
+                    <button
+                      key={inningsId}
+                      onClick={() => setEditInningsId(inningsId)}
+                      className={`px-4 py-2 rounded-xl border text-sm ${
+                        selectedEditInningsId === inningsId
+                          ? "bg-white/30 border-white/60"
+                          : "bg-white/5 border-white/20"
+                      }`}
+                    >
+                      Innings {inningsId}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <BallLedgerEditor
+                matchId={matchId}
+                inningsId={selectedEditInningsId}
+                teams={match.teams}
+                laws={match.config.laws}
+                refreshKey={ledgerRefreshKey}
+              />
+            </>
+          )}
+        </div>
+
             {/* Error */}
             {error && (
               <div className="backdrop-blur-xl bg-red-500/20 border border-red-500/40 text-white p-4 rounded-2xl">
@@ -1255,30 +2278,253 @@ export default function MatchScorerPage() {
           {/* Sidebar - Bowler & Batter Statistics */}
           <div className="lg:col-span-1">
             <div className="sticky top-8 space-y-6">
+              {scorecardSummaries.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {[
+                    ...scorecardSummaries.map((summary) => ({
+                      key: getSummaryInningsId(summary),
+                      label: formatInningsShortLabel(summary.innings, summary.super_over),
+                    })),
+                    { key: null, label: currentInningsTabLabel },
+                  ].map((tab) => (
+                    <button
+                      key={tab.key ?? "current"}
+                      onClick={() => setScorecardInnings(tab.key)}
+                      className={`px-4 py-2 rounded-xl border text-sm font-semibold transition-all duration-200 ${
+                        scorecardInnings === tab.key ||
+                        (tab.key === null && !viewedSummary)
+                          ? "bg-purple-500/30 border-purple-400/60 text-white"
+                          : "bg-white/5 border-white/20 text-white/70 hover:bg-white/10"
+                      }`}
+                    >
+                      {tab.label}
+                    </button>
+                  ))}
+                </div>
+              )}
               <BowlerStatsSidebar
-                bowlingTeamPlayers={bowlingTeam?.players ?? []}
-                playerStats={playerStats}
-                currentBowlerId={liveState?.bowler_id}
+                bowlingTeamPlayers={scorecardBowlingTeam?.players ?? []}
+                playerStats={scorecardStats}
+                currentBowlerId={viewedSummary ? undefined : liveState?.bowler_id}
+                ballsPerOver={ballsPerOver}
+                maxOversPerBowler={
+                  match && !viewedSummary
+                    ? getMaxOversPerBowler(match.config) ?? undefined
+                    : undefined
+                }
               />
               <BatterStatsSidebar
-                battingTeamPlayers={battingTeam?.players ?? []}
-                playerStats={playerStats}
-                strikerId={liveState?.striker_id}
-                nonStrikerId={liveState?.non_striker_id}
+                battingTeamPlayers={scorecardBattingTeam?.players ?? []}
+                bowlingTeamPlayers={scorecardBowlingTeam?.players ?? []}
+                playerStats={scorecardStats}
+                strikerId={viewedSummary ? undefined : liveState?.striker_id}
+                nonStrikerId={viewedSummary ? undefined : liveState?.non_striker_id}
+                battingAlone={!viewedSummary && battingAlone}
+              />
+              <FieldingStatsSidebar
+                bowlingTeamPlayers={scorecardBowlingTeam?.players ?? []}
+                playerStats={scorecardStats}
               />
+              {!match?.config.pairs && (
+                <InningsBreakdownSidebar
+                  extras={viewedSummary ? viewedSummary.extras : liveState?.extras}
+                  fallOfWickets={
+                    (viewedSummary ? viewedSummary.fall_of_wickets : liveState?.fall_of_wickets) ?? []
+                  }
+                  battingTeamPlayers={scorecardBattingTeam?.players ?? []}
+                  ballsPerOver={ballsPerOver}
+                />
+              )}
+              {match?.config.pairs && liveState && (
+                <PairScoresSidebar
+                  innings={[
+                    ...inningsSummaries.map((summary) => ({
+                      label: match.teams[summary.batting_team_id].name,
+                      pairScores: summary.pair_scores ?? [],
+                    })),
+                    {
+                      label: battingTeam?.name ?? "Batting team",
+                      pairScores: liveState.pair_scores ?? [],
+                    },
+                  ]}
+                  players={[...match.teams.a.players, ...match.teams.b.players]}
+                  ballsPerOver={ballsPerOver}
+                  dismissalRuns={match.config.pairs.dismissal_runs}
+                />
+              )}
+              {isMatchOwner && matchId && (
+                <LedgerIntegrityPanel matchId={matchId} />
+              )}
             </div>
           </div>
         </div>
       </div>
     </div>
 
+      {showReduceOversModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4">
+          <div className="w-full max-w-md bg-slate-900/95 border border-white/10 rounded-3xl p-6 text-white space-y-4">
+            <div>
+              <h3 className="text-xl font-semibold mb-1">Reduce Overs</h3>
+              <p className="text-white/70 text-sm">
+                Cut the overs per innings after an interruption. Currently {totalOvers} overs;{" "}
+                {score.overs}.{score.balls} bowled in this innings.
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm text-white/80 mb-2">New overs per innings</label>
+              <input
+                type="number"
+                min={1}
+                max={totalOvers - 1}
+                value={reducedOvers}
+                onChange={(e) => setReducedOvers(parseInt(e.target.value) || 1)}
+                className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-white/80 mb-2">Revised target method</label>
+              <select
+                value={targetMethod}
+                onChange={(e) => setTargetMethod(e.target.value as TargetMethod)}
+                className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
+              >
+                {(Object.keys(TARGET_METHOD_LABELS) as TargetMethod[]).map((method) => (
+                  <option key={method} value={method}>
+                    {TARGET_METHOD_LABELS[method]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <input
+              type="text"
+              value={interruptionReason}
+              onChange={(e) => setInterruptionReason(e.target.value)}
+              placeholder="Reason (e.g. rain)"
+              className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-purple-400"
+            />
+            {revisedTargetPreview != null && (
+              <p className="text-sm text-white/70">
+                Revised target:{" "}
+                <span className="font-semibold text-yellow-400">{revisedTargetPreview}</span>{" "}
+                from {reducedOvers} overs
+              </p>
+            )}
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowReduceOversModal(false)}
+                disabled={isReducingOvers}
+                className="flex-1 px-4 py-3 bg-white/10 border border-white/20 rounded-xl font-semibold hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleReduceOvers}
+                disabled={isReducingOvers}
+                className="flex-1 px-4 py-3 bg-linear-to-r from-purple-500 to-pink-500 rounded-xl font-semibold hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isReducingOvers ? "Saving..." : "Reduce Overs"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showSuperOverModal && superOverBattingTeam && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4">
+          <div className="w-full max-w-md bg-slate-900/95 border border-white/10 rounded-3xl p-6 text-white space-y-4">
+            <div>
+              <h3 className="text-xl font-semibold mb-1">Super Over</h3>
+              <p className="text-white/70 text-sm">
+                One over each, three batters a side: two wickets end the innings.{" "}
+                {superOverBattingTeam.name} bats first.
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm text-white/80 mb-2">
+                Striker ({superOverBattingTeam.name})
+              </label>
+              <select
+                value={superOverStrikerId}
+                onChange={(e) => setSuperOverStrikerId(e.target.value)}
+                className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
+              >
+                <option value="">Choose striker</option>
+                {superOverBattingTeam.players.map((player) => (
+                  <option key={player.id} value={player.id}>
+                    {player.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-white/80 mb-2">
+                Non-Striker ({superOverBattingTeam.name})
+              </label>
+              <select
+                value={superOverNonStrikerId}
+                onChange={(e) => setSuperOverNonStrikerId(e.target.value)}
+                className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
+              >
+                <option value="">Choose non-striker</option>
+                {superOverBattingTeam.players
+                  .filter((player) => player.id !== superOverStrikerId)
+                  .map((player) => (
+                    <option key={player.id} value={player.id}>
+                      {player.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-white/80 mb-2">
+                Bowler ({superOverBowlingTeam.name})
+              </label>
+              <select
+                value={superOverBowlerId}
+                onChange={(e) => setSuperOverBowlerId(e.target.value)}
+                className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
+              >
+                <option value="">Choose bowler</option>
+                {superOverBowlingTeam.players.map((player) => (
+                  <option key={player.id} value={player.id}>
+                    {player.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={closeSuperOverModal}
+                disabled={isStartingSuperOver}
+                className="flex-1 px-4 py-3 bg-white/10 border border-white/20 rounded-xl font-semibold hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleStartSuperOver}
+                disabled={
+                  !superOverStrikerId ||
+                  !superOverNonStrikerId ||
+                  !superOverBowlerId ||
+                  isStartingSuperOver
+                }
+                className="flex-1 px-4 py-3 bg-linear-to-r from-amber-500 to-orange-500 rounded-xl font-semibold hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isStartingSuperOver ? "Starting..." : "Start Super Over"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {showRematchModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4">
           <div className="w-full max-w-md bg-slate-900/95 border border-white/10 rounded-3xl p-6 text-white space-y-4">
             <div>
               <h3 className="text-xl font-semibold mb-1">Rematch With Same Squads</h3>
               <p className="text-white/70 text-sm">
-                Choose the number of overs for the rematch. Teams and players will remain the same.
+                Choose the number of overs and the over format for the rematch. Teams and players will remain the same.
               </p>
             </div>
             <div>
@@ -1292,6 +2538,20 @@ export default function MatchScorerPage() {
                 className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
               />
             </div>
+            <div>
+              <label className="block text-sm text-white/80 mb-2">Over format</label>
+              <select
+                value={rematchFormatIndex}
+                onChange={(e) => setRematchFormatIndex(parseInt(e.target.value))}
+                className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
+              >
+                {OVER_FORMATS.map((format, index) => (
+                  <option key={format.label} value={index}>
+                    {format.label}
+                  </option>
+                ))}
+              </select>
+            </div>
             <div className="flex gap-3">
               <button
                 onClick={() => setShowRematchModal(false)}
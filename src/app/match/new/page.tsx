@@ -18,6 +18,20 @@ import {
   startMatch,
   getMatchById,
 } from "@/lib/firebase/matches";
+import { OVER_FORMATS, getOverFormatIndex } from "@/lib/cricket/format";
+import { getMaxOversPerBowler } from "@/lib/cricket/engine";
+import { DEFAULT_FOLLOW_ON_MARGIN } from "@/lib/cricket/innings";
+import { DEFAULT_DISMISSAL_RUNS } from "@/lib/cricket/pairs";
+import { buildPhases } from "@/lib/cricket/phases";
+import {
+  BOUNDARY_OUT_LABELS,
+  DEFAULT_OBJECT_RUNS,
+  HOUSE_RULE_PRESETS,
+  RULE_WICKET_TYPES,
+  WICKET_TYPE_LABELS,
+  findHouseRulePreset,
+  hasHouseRules,
+} from "@/lib/cricket/rules";
 import PlayerPoolSelector from "@/components/match/PlayerPoolSelector";
 import SquadSelector from "@/components/match/SquadSelector";
 import type {
@@ -27,8 +41,12 @@ import type {
   OpeningPlayersInput,
   Player,
   MatchConfig,
+  MatchPhaseName,
+  HouseRules,
+  BoundaryOutRule,
+  CatchStrikeLaw,
 } from "@/types/cricket";
-import { MatchStatus } from "@/types/cricket";
+import { MatchStatus, WicketType } from "@/types/cricket";
 
 type Step = "setup" | "pool" | "squad-a" | "squad-b" | "toss" | "openers";
 
@@ -58,6 +76,18 @@ function MatchSetupWizard() {
   const [teamAName, setTeamAName] = useState("");
   const [teamBName, setTeamBName] = useState("");
   const [totalOvers, setTotalOvers] = useState(20);
+  const [overFormatIndex, setOverFormatIndex] = useState(0);
+  const [maxOversPerBowler, setMaxOversPerBowler] = useState(""); // Blank uses the default quota
+  const [powerplayOvers, setPowerplayOvers] = useState(""); // Blank: no phase tracking
+  const [deathOvers, setDeathOvers] = useState("");
+  const [inningsPerSide, setInningsPerSide] = useState<1 | 2>(1);
+  const [followOnMargin, setFollowOnMargin] = useState(""); // Blank uses the default margin
+  const [lastManStands, setLastManStands] = useState(false);
+  const [oversPerPair, setOversPerPair] = useState(""); // Blank: not pairs cricket
+  const [dismissalRuns, setDismissalRuns] = useState(""); // Blank uses the default deduction
+  const [houseRules, setHouseRules] = useState<HouseRules>({});
+  const [catchStrike, setCatchStrike] = useState<CatchStrikeLaw>("new_batter");
+  const [backingUpRunOut, setBackingUpRunOut] = useState(true);
 
   // Form state for Step 4 (Toss)
   const [tossWinner, setTossWinner] = useState<"a" | "b" | null>(null);
@@ -103,6 +133,34 @@ function MatchSetupWizard() {
     setTeamAName(matchData.teams.a.name);
     setTeamBName(matchData.teams.b.name);
     setTotalOvers(matchData.config.total_overs);
+    setOverFormatIndex(getOverFormatIndex(matchData.config));
+    setMaxOversPerBowler(
+      matchData.config.max_overs_per_bowler != null
+        ? String(matchData.config.max_overs_per_bowler)
+        : ""
+    );
+    const phaseOvers = (name: MatchPhaseName) => {
+      const phase = matchData.config.phases?.find((p) => p.name === name);
+      return phase ? String(phase.end_over - phase.start_over + 1) : "";
+    };
+    setPowerplayOvers(phaseOvers("powerplay"));
+    setDeathOvers(phaseOvers("death"));
+    setInningsPerSide(matchData.config.innings_per_side ?? 1);
+    setFollowOnMargin(
+      matchData.config.follow_on_margin != null
+        ? String(matchData.config.follow_on_margin)
+        : ""
+    );
+    setLastManStands(!!matchData.config.last_man_stands);
+    setOversPerPair(
+      matchData.config.pairs ? String(matchData.config.pairs.overs_per_pair) : ""
+    );
+    setDismissalRuns(
+      matchData.config.pairs ? String(matchData.config.pairs.dismissal_runs) : ""
+    );
+    setHouseRules(matchData.config.house_rules ?? {});
+    setCatchStrike(matchData.config.laws?.catch_strike ?? "new_batter");
+    setBackingUpRunOut(matchData.config.laws?.backing_up_run_out ?? true);
   }, [matchData]);
 
   useEffect(() => {
@@ -131,6 +189,29 @@ function MatchSetupWizard() {
     }
   }, [user, authLoading, router]);
 
+  // House rules: unset keys (and switched-off rules) are left out of the config
+  const updateHouseRules = (changes: Partial<HouseRules>) => {
+    setHouseRules((prev) => {
+      const next: HouseRules = { ...prev, ...changes };
+      (Object.keys(next) as (keyof HouseRules)[]).forEach((key) => {
+        if (next[key] === undefined || next[key] === false) delete next[key];
+      });
+      return next;
+    });
+  };
+
+  const toggleAllowedWicket = (type: WicketType) => {
+    const allowed = houseRules.allowed_wickets ?? RULE_WICKET_TYPES;
+    const next = RULE_WICKET_TYPES.filter((candidate) =>
+      candidate === type ? !allowed.includes(type) : allowed.includes(candidate)
+    );
+    updateHouseRules({
+      allowed_wickets: next.length === RULE_WICKET_TYPES.length ? undefined : next,
+    });
+  };
+
+  const houseRulePreset = findHouseRulePreset(houseRules);
+
   // Handle Step 1: Create Match
   const handleCreateMatch = async () => {
     if (continuingExistingMatch) {
@@ -148,14 +229,97 @@ function MatchSetupWizard() {
       return;
     }
 
+    if (
+      maxOversPerBowler &&
+      !(parseInt(maxOversPerBowler) >= 1 && parseInt(maxOversPerBowler) <= totalOvers)
+    ) {
+      setError("Max overs per bowler must be between 1 and the overs per innings");
+      return;
+    }
+
+    if ((parseInt(powerplayOvers) || 0) + (parseInt(deathOvers) || 0) > totalOvers) {
+      setError("Powerplay and death overs cannot add up to more than the innings");
+      return;
+    }
+
+    if (inningsPerSide === 2 && followOnMargin && !(parseInt(followOnMargin) >= 1)) {
+      setError("Follow-on margin must be at least 1");
+      return;
+    }
+
+    if (oversPerPair) {
+      const pairOvers = parseInt(oversPerPair);
+      if (!(pairOvers >= 1) || pairOvers > totalOvers) {
+        setError("Overs per pair must be between 1 and the overs per innings");
+        return;
+      }
+      if (dismissalRuns && !(parseInt(dismissalRuns) >= 0)) {
+        setError("Runs per dismissal cannot be negative");
+        return;
+      }
+      if (inningsPerSide === 2 || lastManStands) {
+        setError("Pairs cricket is played as one innings a side without last man stands");
+        return;
+      }
+    }
+
+    if (houseRules.allowed_wickets?.length === 0) {
+      setError("House rules must leave at least one way to be out");
+      return;
+    }
+
     setLoading(true);
     setError("");
 
     try {
+      const { balls_per_over, ten_from_one_end } = OVER_FORMATS[overFormatIndex];
       const config: MatchConfig = {
         total_overs: totalOvers,
         wide_runs: 1,
         no_ball_runs: 1,
+        balls_per_over,
+        ...(ten_from_one_end ? { ten_from_one_end } : {}),
+        ...(maxOversPerBowler
+          ? { max_overs_per_bowler: parseInt(maxOversPerBowler) }
+          : {}),
+        ...(powerplayOvers || deathOvers
+          ? {
+              phases: buildPhases(
+                totalOvers,
+                parseInt(powerplayOvers) || 0,
+                parseInt(deathOvers) || 0
+              ),
+            }
+          : {}),
+        ...(inningsPerSide === 2
+          ? {
+              innings_per_side: inningsPerSide,
+              ...(followOnMargin
+                ? { follow_on_margin: parseInt(followOnMargin) }
+                : {}),
+            }
+          : {}),
+        ...(lastManStands ? { last_man_stands: true } : {}),
+        ...(oversPerPair
+          ? {
+              pairs: {
+                overs_per_pair: parseInt(oversPerPair),
+                dismissal_runs: dismissalRuns
+                  ? parseInt(dismissalRuns)
+                  : DEFAULT_DISMISSAL_RUNS,
+              },
+            }
+          : {}),
+        ...(hasHouseRules(houseRules) ? { house_rules: houseRules } : {}),
+        // Only departures from the 2022 laws are stored
+        ...(catchStrike !== "new_batter" || !backingUpRunOut
+          ? {
+              laws: {
+                ...(catchStrike !== "new_batter" ? { catch_strike: catchStrike } : {}),
+                ...(!backingUpRunOut ? { backing_up_run_out: false } : {}),
+              },
+            }
+          : {}),
       };
 
       const input: CreateMatchInput = {
@@ -384,6 +548,288 @@ function MatchSetupWizard() {
                 />
               </div>
 
+              <div>
+                <label className="block text-white/90 text-sm font-medium mb-2">
+                  Over Format
+                </label>
+                <select
+                  value={overFormatIndex}
+                  onChange={(e) => setOverFormatIndex(parseInt(e.target.value))}
+                  disabled={continuingExistingMatch}
+                  className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-transparent transition-all duration-300 backdrop-blur-sm disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  {OVER_FORMATS.map((format, index) => (
+                    <option key={format.label} value={index}>
+                      {format.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-white/90 text-sm font-medium mb-2">
+                    Innings per Side
+                  </label>
+                  <select
+                    value={inningsPerSide}
+                    onChange={(e) => setInningsPerSide(parseInt(e.target.value) === 2 ? 2 : 1)}
+                    disabled={continuingExistingMatch}
+                    className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-transparent transition-all duration-300 backdrop-blur-sm disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    <option value={1}>One (limited overs)</option>
+                    <option value={2}>Two (Test / two-day)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-white/90 text-sm font-medium mb-2">
+                    Follow-on Margin
+                  </label>
+                  <input
+                    type="number"
+                    value={followOnMargin}
+                    onChange={(e) => setFollowOnMargin(e.target.value)}
+                    min="1"
+                    placeholder={`Default: ${DEFAULT_FOLLOW_ON_MARGIN}`}
+                    disabled={continuingExistingMatch || inningsPerSide !== 2}
+                    className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-transparent transition-all duration-300 backdrop-blur-sm disabled:opacity-60 disabled:cursor-not-allowed"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-white/90 text-sm font-medium mb-2">
+                  Max Overs per Bowler
+                </label>
+                <input
+                  type="number"
+                  value={maxOversPerBowler}
+                  onChange={(e) => setMaxOversPerBowler(e.target.value)}
+                  min="1"
+                  max={totalOvers}
+                  placeholder={`Default: ${
+                    getMaxOversPerBowler({
+                      total_overs: totalOvers,
+                      innings_per_side: inningsPerSide,
+                    }) ?? "no limit"
+                  }`}
+                  disabled={continuingExistingMatch}
+                  className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-transparent transition-all duration-300 backdrop-blur-sm disabled:opacity-60 disabled:cursor-not-allowed"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-white/90 text-sm font-medium mb-2">
+                    Powerplay Overs
+                  </label>
+                  <input
+                    type="number"
+                    value={powerplayOvers}
+                    onChange={(e) => setPowerplayOvers(e.target.value)}
+                    min="0"
+                    max={totalOvers}
+                    placeholder="None"
+                    disabled={continuingExistingMatch}
+                    className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-transparent transition-all duration-300 backdrop-blur-sm disabled:opacity-60 disabled:cursor-not-allowed"
+                  />
+                </div>
+                <div>
+                  <label className="block text-white/90 text-sm font-medium mb-2">
+                    Death Overs
+                  </label>
+                  <input
+                    type="number"
+                    value={deathOvers}
+                    onChange={(e) => setDeathOvers(e.target.value)}
+                    min="0"
+                    max={totalOvers}
+                    placeholder="None"
+                    disabled={continuingExistingMatch}
+                    className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-transparent transition-all duration-300 backdrop-blur-sm disabled:opacity-60 disabled:cursor-not-allowed"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-3 text-sm text-white/90">
+                <input
+                  type="checkbox"
+                  checked={lastManStands}
+                  onChange={(e) => setLastManStands(e.target.checked)}
+                  disabled={continuingExistingMatch}
+                  className="w-4 h-4 accent-purple-500"
+                />
+                Last man stands (the final batter bats on alone)
+              </label>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-white/90 text-sm font-medium mb-2">
+                    Overs per Pair
+                  </label>
+                  <input
+                    type="number"
+                    value={oversPerPair}
+                    onChange={(e) => setOversPerPair(e.target.value)}
+                    min="1"
+                    max={totalOvers}
+                    placeholder="None (not pairs cricket)"
+                    disabled={continuingExistingMatch}
+                    className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-transparent transition-all duration-300 backdrop-blur-sm disabled:opacity-60 disabled:cursor-not-allowed"
+                  />
+                </div>
+                <div>
+                  <label className="block text-white/90 text-sm font-medium mb-2">
+                    Runs per Dismissal
+                  </label>
+                  <input
+                    type="number"
+                    value={dismissalRuns}
+                    onChange={(e) => setDismissalRuns(e.target.value)}
+                    min="0"
+                    placeholder={`Default: ${DEFAULT_DISMISSAL_RUNS}`}
+                    disabled={continuingExistingMatch || !oversPerPair}
+                    className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-transparent transition-all duration-300 backdrop-blur-sm disabled:opacity-60 disabled:cursor-not-allowed"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-4 p-4 rounded-xl border border-white/20 bg-white/5">
+                <div>
+                  <label className="block text-white/90 text-sm font-medium mb-2">
+                    House Rules
+                  </label>
+                  <select
+                    value={houseRulePreset?.id ?? "custom"}
+                    onChange={(e) => {
+                      const preset = HOUSE_RULE_PRESETS.find((p) => p.id === e.target.value);
+                      if (preset) {
+                        setHouseRules({
+                          ...preset.rules,
+                          ...(preset.rules.allowed_wickets
+                            ? { allowed_wickets: [...preset.rules.allowed_wickets] }
+                            : {}),
+                        });
+                      }
+                    }}
+                    disabled={continuingExistingMatch}
+                    className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-transparent transition-all duration-300 backdrop-blur-sm disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    {HOUSE_RULE_PRESETS.map((preset) => (
+                      <option key={preset.id} value={preset.id}>
+                        {preset.label}
+                      </option>
+                    ))}
+                    {!houseRulePreset && <option value="custom">Custom</option>}
+                  </select>
+                </div>
+
+                <div>
+                  <p className="text-white/90 text-sm font-medium mb-2">Ways to Be Out</p>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                    {RULE_WICKET_TYPES.map((type) => (
+                      <label key={type} className="flex items-center gap-2 text-sm text-white/90">
+                        <input
+                          type="checkbox"
+                          checked={(houseRules.allowed_wickets ?? RULE_WICKET_TYPES).includes(type)}
+                          onChange={() => toggleAllowedWicket(type)}
+                          disabled={continuingExistingMatch}
+                          className="w-4 h-4 accent-purple-500"
+                        />
+                        {WICKET_TYPE_LABELS[type]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-white/90 text-sm font-medium mb-2">
+                      Boundary Out
+                    </label>
+                    <select
+                      value={houseRules.boundary_out ?? ""}
+                      onChange={(e) =>
+                        updateHouseRules({
+                          boundary_out: e.target.value
+                            ? (e.target.value as BoundaryOutRule)
+                            : undefined,
+                        })
+                      }
+                      disabled={continuingExistingMatch}
+                      className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-transparent transition-all duration-300 backdrop-blur-sm disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                      <option value="">Off</option>
+                      {(Object.keys(BOUNDARY_OUT_LABELS) as BoundaryOutRule[]).map((rule) => (
+                        <option key={rule} value={rule}>
+                          {BOUNDARY_OUT_LABELS[rule]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-white/90 text-sm font-medium mb-2">
+                      Runs for Hitting the Object
+                    </label>
+                    <input
+                      type="number"
+                      value={houseRules.object_runs ?? ""}
+                      onChange={(e) =>
+                        updateHouseRules({
+                          object_runs: e.target.value
+                            ? Math.max(parseInt(e.target.value) || 0, 1)
+                            : undefined,
+                        })
+                      }
+                      min="1"
+                      placeholder={`None (e.g. ${DEFAULT_OBJECT_RUNS})`}
+                      disabled={continuingExistingMatch}
+                      className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-transparent transition-all duration-300 backdrop-blur-sm disabled:opacity-60 disabled:cursor-not-allowed"
+                    />
+                  </div>
+                </div>
+
+                <label className="flex items-center gap-3 text-sm text-white/90">
+                  <input
+                    type="checkbox"
+                    checked={!!houseRules.no_wicket_last_ball}
+                    onChange={(e) => updateHouseRules({ no_wicket_last_ball: e.target.checked })}
+                    disabled={continuingExistingMatch}
+                    className="w-4 h-4 accent-purple-500"
+                  />
+                  No wicket off the last ball of an over
+                </label>
+              </div>
+
+              <div className="space-y-4 p-4 rounded-xl border border-white/20 bg-white/5">
+                <div>
+                  <label className="block text-white/90 text-sm font-medium mb-2">
+                    Strike After a Catch
+                  </label>
+                  <select
+                    value={catchStrike}
+                    onChange={(e) =>
+                      setCatchStrike(e.target.value === "crossed" ? "crossed" : "new_batter")
+                    }
+                    disabled={continuingExistingMatch}
+                    className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-transparent transition-all duration-300 backdrop-blur-sm disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    <option value="new_batter">New batter takes strike (2022 laws)</option>
+                    <option value="crossed">Depends on whether the batters crossed (older laws)</option>
+                  </select>
+                </div>
+                <label className="flex items-center gap-3 text-sm text-white/90">
+                  <input
+                    type="checkbox"
+                    checked={backingUpRunOut}
+                    onChange={(e) => setBackingUpRunOut(e.target.checked)}
+                    disabled={continuingExistingMatch}
+                    className="w-4 h-4 accent-purple-500"
+                  />
+                  Non-striker may be run out backing up at the bowler&apos;s end
+                </label>
+              </div>
+
               <button
                 onClick={handleCreateMatch}
                 disabled={
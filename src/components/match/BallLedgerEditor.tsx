@@ -0,0 +1,552 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  correctBall,
+  deleteBall,
+  insertBallBefore,
+  listInningsBalls,
+} from "@/lib/firebase/scoring";
+import {
+  allowsBackingUpRunOut,
+  ballEventToInput,
+  isPenaltyEvent,
+} from "@/lib/cricket/engine";
+import { formatBallOutcome, formatBallPosition } from "@/lib/cricket/format";
+import type {
+  BallEvent,
+  BallInput,
+  CreaseEnd,
+  LawsOptions,
+  Match,
+  TeamId,
+} from "@/types/cricket";
+import { ExtraType, WicketType } from "@/types/cricket";
+
+interface BallLedgerEditorProps {
+  matchId: string;
+  inningsId: string;
+  teams: Match["teams"]; // For player names and the fielders of each innings
+  laws?: LawsOptions; // Which catch and backing-up details to ask for
+  refreshKey?: string; // Changes whenever a ball is recorded or undone
+  disabled?: boolean;
+}
+
+type DraftBall = {
+  runs: number;
+  boundary: boolean; // The runs off the bat were a four or six, not run
+  extraType: ExtraType | "";
+  extraRuns: number;
+  wicketSide: "striker" | "non-striker" | "";
+  wicketType: WicketType | "";
+  runOutEnd: CreaseEnd | "";
+  battersCrossed: boolean; // Catches under the older laws
+  backingUp: boolean; // Non-striker run out before the ball was bowled
+  fielderId: string;
+  assistId: string;
+};
+
+const FIELDING_WICKETS = [WicketType.CAUGHT, WicketType.STUMPED, WicketType.RUN_OUT];
+
+const EDITABLE_EXTRAS: { label: string; value: ExtraType }[] = [
+  { label: "Wide", value: ExtraType.WIDE },
+  { label: "No Ball", value: ExtraType.NO_BALL },
+  { label: "Bye", value: ExtraType.BYE },
+  { label: "Leg Bye", value: ExtraType.LEG_BYE },
+];
+
+const WICKET_TYPES = Object.values(WicketType);
+
+const toDraft = (ball: BallEvent): DraftBall => ({
+  runs: ball.runs_off_bat,
+  boundary: !!ballEventToInput(ball).boundary,
+  extraType: ball.extras?.type ?? "",
+  extraRuns: ball.extras?.runs ?? 1,
+  wicketSide: ball.wicket?.is_out
+    ? ball.wicket.player_id === ball.pre_ball_state.striker_id
+      ? "striker"
+      : "non-striker"
+    : "",
+  wicketType: ball.wicket?.type ?? "",
+  runOutEnd: ball.wicket?.dismissal_end ?? "",
+  battersCrossed: !!ball.wicket?.batters_crossed,
+  backingUp: !!ball.wicket?.backing_up,
+  fielderId: ball.wicket?.dismissed_by ?? "",
+  assistId: ball.wicket?.assisted_by ?? "",
+});
+
+export default function BallLedgerEditor({
+  matchId,
+  inningsId,
+  teams,
+  laws,
+  refreshKey,
+  disabled = false,
+}: BallLedgerEditorProps) {
+  const [balls, setBalls] = useState<BallEvent[]>([]);
+  const [selectedBallId, setSelectedBallId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<DraftBall | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadBalls = async () => {
+      try {
+        setIsLoading(true);
+        const ledger = await listInningsBalls(matchId, inningsId);
+        if (!cancelled) {
+          setBalls(ledger);
+        }
+      } catch (err) {
+        console.error("Load balls error:", err);
+        if (!cancelled) {
+          setError("Failed to load balls");
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadBalls();
+    return () => {
+      cancelled = true;
+    };
+  }, [matchId, inningsId, refreshKey]);
+
+  const players = [...teams.a.players, ...teams.b.players];
+  const playerName = (playerId?: string | null) =>
+    players.find((player) => player.id === playerId)?.name ?? "Unknown";
+
+  const selectedBall = balls.find((ball) => ball.id === selectedBallId) ?? null;
+  const selectedIsPenalty = !!selectedBall && isPenaltyEvent(selectedBall.extras);
+  const selectedFielders = selectedBall
+    ? teams[selectedBall.pre_ball_state.bowling_team_id as TeamId]?.players ?? []
+    : [];
+
+  const askBattersCrossed = laws?.catch_strike === "crossed";
+  const backingUpAllowed = allowsBackingUpRunOut({ laws });
+  const draftBackingUp =
+    !!draft &&
+    backingUpAllowed &&
+    draft.backingUp &&
+    draft.wicketType === WicketType.RUN_OUT &&
+    draft.wicketSide === "non-striker";
+
+  const selectBall = (ball: BallEvent) => {
+    setError("");
+    setSelectedBallId(ball.id);
+    setDraft(toDraft(ball));
+  };
+
+  const closeEditor = () => {
+    setSelectedBallId(null);
+    setDraft(null);
+  };
+
+  const buildInput = (ball: BallEvent, values: DraftBall): BallInput | null => {
+    const input: BallInput = { runs_off_bat: values.runs };
+    if (values.boundary && (values.runs === 4 || values.runs === 6)) {
+      input.boundary = true;
+    }
+    if (values.extraType) {
+      input.extras = { type: values.extraType, runs: values.extraRuns };
+    }
+    if (values.wicketSide || values.wicketType) {
+      if (!values.wicketSide || !values.wicketType) {
+        setError("Select both the dismissed batter and the dismissal type");
+        return null;
+      }
+      const isStrikerOut = values.wicketSide === "striker";
+      const backingUp =
+        backingUpAllowed &&
+        values.backingUp &&
+        values.wicketType === WicketType.RUN_OUT &&
+        !isStrikerOut;
+      input.wicket = {
+        type: values.wicketType,
+        player_id: isStrikerOut
+          ? ball.pre_ball_state.striker_id
+          : ball.pre_ball_state.non_striker_id,
+        is_striker_out: isStrikerOut,
+        ...(backingUp
+          ? { backing_up: true, dismissal_end: "non_striker" as const }
+          : values.wicketType === WicketType.RUN_OUT && values.runOutEnd
+          ? { dismissal_end: values.runOutEnd }
+          : {}),
+        ...(askBattersCrossed &&
+        values.wicketType === WicketType.CAUGHT &&
+        values.battersCrossed
+          ? { batters_crossed: true }
+          : {}),
+        ...(FIELDING_WICKETS.includes(values.wicketType) && values.fielderId
+          ? { dismissed_by: values.fielderId }
+          : {}),
+        ...(values.wicketType === WicketType.RUN_OUT &&
+        values.fielderId &&
+        values.assistId
+          ? { assisted_by: values.assistId }
+          : {}),
+      };
+    }
+    return input;
+  };
+
+  const handleSave = async () => {
+    if (!selectedBall || !draft) return;
+    const input = buildInput(selectedBall, draft);
+    if (!input) return;
+
+    try {
+      setIsSaving(true);
+      setError("");
+      await correctBall(matchId, inningsId, selectedBall.id, input);
+      closeEditor();
+      setBalls(await listInningsBalls(matchId, inningsId));
+    } catch (err) {
+      console.error("Correct ball error:", err);
+      setError(err instanceof Error ? err.message : "Failed to correct ball");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleInsertBefore = async () => {
+    if (!selectedBall || !draft) return;
+    const input = buildInput(selectedBall, draft);
+    if (!input) return;
+
+    try {
+      setIsSaving(true);
+      setError("");
+      await insertBallBefore(matchId, selectedBall.id, input, inningsId);
+      closeEditor();
+      setBalls(await listInningsBalls(matchId, inningsId));
+    } catch (err) {
+      console.error("Insert ball error:", err);
+      setError(err instanceof Error ? err.message : "Failed to insert ball");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedBall) return;
+    const label = selectedIsPenalty
+      ? "this penalty award"
+      : `ball ${formatBallPosition(selectedBall)}`;
+    if (!confirm(`Delete ${label}? Every later ball will be recalculated.`)) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError("");
+      await deleteBall(matchId, inningsId, selectedBall.id);
+      closeEditor();
+      setBalls(await listInningsBalls(matchId, inningsId));
+    } catch (err) {
+      console.error("Delete ball error:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete ball");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {isLoading && balls.length === 0 ? (
+        <p className="text-sm text-white/60">Loading balls...</p>
+      ) : balls.length === 0 ? (
+        <p className="text-sm text-white/60">No balls recorded in this innings yet.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2 max-h-[200px] overflow-y-auto pr-1">
+          {balls.map((ball, index) => (
+            <button
+              key={`${ball.id}-${index}`}
+              onClick={() => selectBall(ball)}
+              disabled={disabled || isSaving}
+              className={`px-3 py-2 rounded-xl border text-xs disabled:opacity-50 disabled:cursor-not-allowed ${
+                ball.id === selectedBallId
+                  ? "bg-white/30 border-white/60"
+                  : ball.wicket?.is_out
+                  ? "bg-red-500/20 border-red-400/40"
+                  : "bg-white/5 border-white/20 hover:bg-white/10"
+              }`}
+            >
+              <span className="text-white/60">{formatBallPosition(ball)}</span>{" "}
+              <span className="font-semibold">{formatBallOutcome(ball)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selectedBall && selectedIsPenalty && (
+        <div className="p-4 rounded-2xl border border-white/20 bg-white/5 space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="font-semibold">
+              Penalty • {selectedBall.extras?.runs} runs
+            </p>
+            <button
+              onClick={closeEditor}
+              className="text-xs text-white/70 underline"
+            >
+              Close
+            </button>
+          </div>
+          <p className="text-xs text-white/60">
+            {selectedBall.penalty?.reason}. Penalty awards can only be deleted;
+            award them again from the scoring panel if they were wrong.
+          </p>
+
+          {error && <p className="text-sm text-red-200">{error}</p>}
+
+          <button
+            onClick={handleDelete}
+            disabled={isSaving}
+            className="w-full py-2 rounded-xl bg-red-500/30 border border-red-400/50 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Delete Penalty
+          </button>
+        </div>
+      )}
+
+      {selectedBall && draft && !selectedIsPenalty && (
+        <div className="p-4 rounded-2xl border border-white/20 bg-white/5 space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="font-semibold">
+              Ball {formatBallPosition(selectedBall)} •{" "}
+              {playerName(selectedBall.pre_ball_state.bowler_id)} to{" "}
+              {playerName(selectedBall.pre_ball_state.striker_id)}
+            </p>
+            <button
+              onClick={closeEditor}
+              className="text-xs text-white/70 underline"
+            >
+              Close
+            </button>
+          </div>
+          <p className="text-xs text-white/60">
+            Set the outcome below, then save it as a correction to this ball or
+            insert it as a missed delivery bowled just before it.
+          </p>
+
+          <div>
+            <p className="text-sm text-white/70 mb-2">Runs off the bat</p>
+            <div className="grid grid-cols-4 sm:grid-cols-7 gap-2">
+              {[0, 1, 2, 3, 4, 5, 6].map((run) => (
+                <button
+                  key={run}
+                  onClick={() => setDraft({ ...draft, runs: run })}
+                  className={`py-2 rounded-xl border text-sm ${
+                    draft.runs === run
+                      ? "bg-white/30 border-white/60"
+                      : "bg-white/5 border-white/20"
+                  }`}
+                >
+                  {run}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {(draft.runs === 4 || draft.runs === 6) && (
+            <label className="flex items-center gap-3 text-sm text-white/90">
+              <input
+                type="checkbox"
+                checked={draft.boundary}
+                onChange={(e) => setDraft({ ...draft, boundary: e.target.checked })}
+                className="w-4 h-4 accent-purple-500"
+              />
+              Hit to the boundary (not run)
+            </label>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <select
+              value={draft.extraType}
+              onChange={(e) =>
+                setDraft({ ...draft, extraType: e.target.value as ExtraType | "" })
+              }
+              className="px-3 py-2 bg-white/5 border border-white/20 rounded-xl text-white text-sm"
+            >
+              <option value="">No extras</option>
+              {EDITABLE_EXTRAS.map((extra) => (
+                <option key={extra.value} value={extra.value}>
+                  {extra.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              value={draft.extraRuns}
+              disabled={!draft.extraType}
+              onChange={(e) =>
+                setDraft({ ...draft, extraRuns: parseInt(e.target.value) || 0 })
+              }
+              className="px-3 py-2 bg-white/5 border border-white/20 rounded-xl text-white text-sm disabled:opacity-50"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <select
+              value={draft.wicketSide}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  wicketSide: e.target.value as DraftBall["wicketSide"],
+                })
+              }
+              className="px-3 py-2 bg-white/5 border border-white/20 rounded-xl text-white text-sm"
+            >
+              <option value="">No wicket</option>
+              <option value="striker">
+                {playerName(selectedBall.pre_ball_state.striker_id)} (striker)
+              </option>
+              <option value="non-striker">
+                {playerName(selectedBall.pre_ball_state.non_striker_id)} (non-striker)
+              </option>
+            </select>
+            <select
+              value={draft.wicketType}
+              disabled={!draft.wicketSide}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  wicketType: e.target.value as WicketType | "",
+                })
+              }
+              className="px-3 py-2 bg-white/5 border border-white/20 rounded-xl text-white text-sm disabled:opacity-50"
+            >
+              <option value="">Dismissal type</option>
+              {WICKET_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type.replace("_", " ")}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {draft.wicketType && FIELDING_WICKETS.includes(draft.wicketType) && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <select
+                value={draft.fielderId}
+                onChange={(e) => setDraft({ ...draft, fielderId: e.target.value })}
+                className="px-3 py-2 bg-white/5 border border-white/20 rounded-xl text-white text-sm"
+              >
+                <option value="">Fielder (not recorded)</option>
+                {selectedFielders.map((player) => (
+                  <option key={player.id} value={player.id}>
+                    {player.name}
+                  </option>
+                ))}
+              </select>
+              {draft.wicketType === WicketType.RUN_OUT && (
+                <select
+                  value={draft.assistId}
+                  disabled={!draft.fielderId}
+                  onChange={(e) => setDraft({ ...draft, assistId: e.target.value })}
+                  className="px-3 py-2 bg-white/5 border border-white/20 rounded-xl text-white text-sm disabled:opacity-50"
+                >
+                  <option value="">Direct hit / no assist</option>
+                  {selectedFielders
+                    .filter((player) => player.id !== draft.fielderId)
+                    .map((player) => (
+                      <option key={player.id} value={player.id}>
+                        Thrown by {player.name}
+                      </option>
+                    ))}
+                </select>
+              )}
+            </div>
+          )}
+
+          {draft.wicketType === WicketType.CAUGHT && askBattersCrossed && (
+            <label className="flex items-center gap-3 text-sm text-white/90">
+              <input
+                type="checkbox"
+                checked={draft.battersCrossed}
+                onChange={(e) =>
+                  setDraft({ ...draft, battersCrossed: e.target.checked })
+                }
+                className="w-4 h-4 accent-purple-500"
+              />
+              Batters crossed before the catch
+            </label>
+          )}
+
+          {draft.wicketType === WicketType.RUN_OUT &&
+            draft.wicketSide === "non-striker" &&
+            backingUpAllowed && (
+              <label className="flex items-center gap-3 text-sm text-white/90">
+                <input
+                  type="checkbox"
+                  checked={draft.backingUp}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      backingUp: e.target.checked,
+                      runOutEnd: e.target.checked ? "non_striker" : draft.runOutEnd,
+                    })
+                  }
+                  className="w-4 h-4 accent-purple-500"
+                />
+                Backing up: left the crease before the ball was bowled
+              </label>
+            )}
+
+          {draft.wicketType === WicketType.RUN_OUT && !draftBackingUp && (
+            <select
+              value={draft.runOutEnd}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  runOutEnd: e.target.value as CreaseEnd | "",
+                })
+              }
+              className="w-full px-3 py-2 bg-white/5 border border-white/20 rounded-xl text-white text-sm"
+            >
+              <option value="">Run out at (auto)</option>
+              <option value="striker">Striker&apos;s end</option>
+              <option value="non_striker">Bowler&apos;s end</option>
+            </select>
+          )}
+
+          {error && <p className="text-sm text-red-200">{error}</p>}
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleDelete}
+              disabled={isSaving}
+              className="flex-1 py-2 rounded-xl bg-red-500/30 border border-red-400/50 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Delete Ball
+            </button>
+            <button
+              onClick={handleInsertBefore}
+              disabled={isSaving}
+              title="Record the outcome above as a missed delivery bowled just before this ball"
+              className="flex-1 py-2 rounded-xl bg-white/10 border border-white/20 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Insert Missed Ball Before
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex-1 py-2 rounded-xl bg-linear-to-r from-purple-500 to-pink-500 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? "Saving..." : "Save Correction"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!selectedBall && error && <p className="text-sm text-red-200">{error}</p>}
+    </div>
+  );
+}
@@ -1,47 +1,64 @@
 "use client";
 
 import { useMemo } from "react";
+import { getBatterStats } from "@/lib/cricket/engine";
+import { formatDismissal } from "@/lib/cricket/format";
 import type { Player, PlayerStatsState } from "@/types/cricket";
 
 interface BatterStatsSidebarProps {
   battingTeamPlayers: Player[];
+  bowlingTeamPlayers?: Player[]; // For bowler/fielder names in dismissals
   playerStats: PlayerStatsState;
   strikerId?: string;
   nonStrikerId?: string;
+  battingAlone?: boolean; // Last man stands: the striker has no partner
 }
 
 type BatterRow = {
   player: Player;
   runs: number;
   balls: number;
+  fours: number;
+  sixes: number;
+  dots: number;
   strikeRate: string;
-  status: "on-strike" | "non-strike" | "completed" | "yet";
+  dismissalText: string | null;
+  status: "on-strike" | "non-strike" | "out" | "completed" | "yet";
 };
 
 const STATUS_ORDER: BatterRow["status"][] = [
   "on-strike",
   "non-strike",
+  "out",
   "completed",
   "yet",
 ];
 
 export default function BatterStatsSidebar({
   battingTeamPlayers,
+  bowlingTeamPlayers = [],
   playerStats,
   strikerId,
   nonStrikerId,
+  battingAlone = false,
 }: BatterStatsSidebarProps) {
   const batterRows = useMemo<BatterRow[]>(() => {
+    const playerName = (playerId?: string) =>
+      bowlingTeamPlayers.find((player) => player.id === playerId)?.name ??
+      "Unknown";
+
     return battingTeamPlayers.map((player) => {
-      const stats = playerStats.batters[player.id] ?? { runs: 0, balls: 0 };
+      const stats = getBatterStats(playerStats, player.id);
       const strikeRate =
         stats.balls > 0 ? ((stats.runs / stats.balls) * 100).toFixed(1) : "0.0";
 
       let status: BatterRow["status"] = "yet";
-      if (player.id === strikerId) {
+      if (strikerId && player.id === strikerId) {
         status = "on-strike";
-      } else if (player.id === nonStrikerId) {
+      } else if (nonStrikerId && player.id === nonStrikerId) {
         status = "non-strike";
+      } else if (stats.dismissal) {
+        status = "out";
       } else if (stats.balls > 0) {
         status = "completed";
       }
@@ -50,11 +67,17 @@ export default function BatterStatsSidebar({
         player,
         runs: stats.runs,
         balls: stats.balls,
+        fours: stats.fours,
+        sixes: stats.sixes,
+        dots: stats.dots,
         strikeRate,
+        dismissalText: stats.dismissal
+          ? formatDismissal(stats.dismissal, playerName)
+          : null,
         status,
       };
     });
-  }, [battingTeamPlayers, playerStats.batters, strikerId, nonStrikerId]);
+  }, [battingTeamPlayers, bowlingTeamPlayers, playerStats, strikerId, nonStrikerId]);
 
   const orderedRows = useMemo(() => {
     return [...batterRows].sort((a, b) => {
@@ -68,9 +91,11 @@ export default function BatterStatsSidebar({
   const getStatusLabel = (status: BatterRow["status"]) => {
     switch (status) {
       case "on-strike":
-        return "On strike";
+        return battingAlone ? "Batting alone" : "On strike";
       case "non-strike":
         return "Non-striker";
+      case "out":
+        return "Out";
       case "completed":
         return "Completed";
       default:
@@ -99,7 +124,7 @@ export default function BatterStatsSidebar({
             <div>
               <p className="text-sm font-semibold">{row.player.name}</p>
               <p className="text-xs text-white/60">
-                {getStatusLabel(row.status)}
+                {row.dismissalText ?? getStatusLabel(row.status)}
               </p>
             </div>
             <div className="text-right">
@@ -107,6 +132,11 @@ export default function BatterStatsSidebar({
                 {row.runs} <span className="text-white/60 text-sm">({row.balls})</span>
               </p>
               <p className="text-xs text-white/60">SR {row.strikeRate}</p>
+              {row.status !== "yet" && (
+                <p className="text-xs text-white/50">
+                  4s {row.fours} • 6s {row.sixes} • Dots {row.dots}
+                </p>
+              )}
             </div>
           </div>
         ))}
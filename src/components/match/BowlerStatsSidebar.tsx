@@ -1,21 +1,36 @@
 "use client";
 
 import { useMemo } from "react";
+import {
+  DEFAULT_BALLS_PER_OVER,
+  getBowlerStats,
+  getEconomy,
+} from "@/lib/cricket/engine";
+import { formatOvers } from "@/lib/cricket/format";
 import type { Player, PlayerStatsState } from "@/types/cricket";
 
 interface BowlerStatsSidebarProps {
   bowlingTeamPlayers: Player[];
   playerStats: PlayerStatsState;
   currentBowlerId?: string;
+  ballsPerOver?: number; // Legal balls per over (defaults to 6)
+  maxOversPerBowler?: number; // Quota per bowler (remaining overs hidden when omitted)
 }
 
 interface BowlerDisplayStats {
   player: Player;
   overs: number; // Full overs (e.g., 5)
-  balls: number; // Balls in current over (0-5)
+  balls: number; // Balls in current over
   totalBalls: number; // Total balls bowled
+  ballsRemaining: number | null; // Legal balls left in the quota
   runs: number;
   wickets: number;
+  maidens: number;
+  dots: number;
+  wides: number;
+  noBalls: number;
+  fours: number;
+  sixes: number;
   economy: number;
   isCurrentBowler: boolean;
 }
@@ -24,30 +39,41 @@ export default function BowlerStatsSidebar({
   bowlingTeamPlayers,
   playerStats,
   currentBowlerId,
+  ballsPerOver = DEFAULT_BALLS_PER_OVER,
+  maxOversPerBowler,
 }: BowlerStatsSidebarProps) {
   const bowlerStatsList = useMemo(() => {
     const stats: BowlerDisplayStats[] = [];
 
     // Get all bowlers who have bowled at least one ball
-    Object.entries(playerStats.bowlers || {}).forEach(([playerId, bowlerStats]) => {
+    Object.keys(playerStats.bowlers || {}).forEach((playerId) => {
+      const bowlerStats = getBowlerStats(playerStats, playerId);
       const player = bowlingTeamPlayers.find((p) => p.id === playerId);
-      if (!player || bowlerStats.balls === 0) return;
+      // Bowlers who have only bowled wides/no-balls still get a line
+      if (!player || (bowlerStats.balls === 0 && bowlerStats.runs === 0)) return;
 
       const totalBalls = bowlerStats.balls;
-      const overs = Math.floor(totalBalls / 6);
-      const balls = totalBalls % 6;
-      const runs = bowlerStats.runs;
-      const wickets = bowlerStats.wickets;
-      const economy = totalBalls > 0 ? (runs / totalBalls) * 6 : 0;
+      const overs = Math.floor(totalBalls / ballsPerOver);
+      const balls = totalBalls % ballsPerOver;
 
       stats.push({
         player,
         overs,
         balls,
         totalBalls,
-        runs,
-        wickets,
-        economy,
+        ballsRemaining:
+          maxOversPerBowler != null
+            ? Math.max(0, maxOversPerBowler * ballsPerOver - totalBalls)
+            : null,
+        runs: bowlerStats.runs,
+        wickets: bowlerStats.wickets,
+        maidens: bowlerStats.maidens,
+        dots: bowlerStats.dots,
+        wides: bowlerStats.wides,
+        noBalls: bowlerStats.no_balls,
+        fours: bowlerStats.fours,
+        sixes: bowlerStats.sixes,
+        economy: getEconomy(bowlerStats, ballsPerOver),
         isCurrentBowler: playerId === currentBowlerId,
       });
     });
@@ -59,7 +85,7 @@ export default function BowlerStatsSidebar({
       }
       return a.economy - b.economy;
     });
-  }, [bowlingTeamPlayers, playerStats, currentBowlerId]);
+  }, [bowlingTeamPlayers, playerStats, currentBowlerId, ballsPerOver, maxOversPerBowler]);
 
   if (bowlerStatsList.length === 0) {
     return (
@@ -113,17 +139,22 @@ export default function BowlerStatsSidebar({
                 </div>
                 <p className="text-white/60 text-xs">
                   {bowlerStat.overs}.{bowlerStat.balls} overs
+                  {bowlerStat.ballsRemaining != null &&
+                    (bowlerStat.ballsRemaining > 0
+                      ? ` • ${formatOvers(bowlerStat.ballsRemaining, ballsPerOver)} left`
+                      : " • quota bowled")}
                 </p>
               </div>
               <div className="text-right">
                 <p className="text-lg font-bold text-white">
-                  {bowlerStat.runs}/{bowlerStat.wickets}
+                  {bowlerStat.overs}.{bowlerStat.balls}-{bowlerStat.maidens}-
+                  {bowlerStat.runs}-{bowlerStat.wickets}
                 </p>
-                <p className="text-white/60 text-xs">Runs/Wickets</p>
+                <p className="text-white/60 text-xs">O-M-R-W</p>
               </div>
             </div>
 
-            <div className="grid grid-cols-2 gap-3 mt-3 pt-3 border-t border-white/10">
+            <div className="grid grid-cols-4 gap-3 mt-3 pt-3 border-t border-white/10">
               <div>
                 <p className="text-white/50 text-xs uppercase tracking-widest mb-1">
                   Economy
@@ -134,10 +165,26 @@ export default function BowlerStatsSidebar({
               </div>
               <div>
                 <p className="text-white/50 text-xs uppercase tracking-widest mb-1">
-                  Wickets
+                  Dots
                 </p>
                 <p className="text-white font-semibold">
-                  {bowlerStat.wickets}
+                  {bowlerStat.dots}
+                </p>
+              </div>
+              <div>
+                <p className="text-white/50 text-xs uppercase tracking-widest mb-1">
+                  Wd/Nb
+                </p>
+                <p className="text-white font-semibold">
+                  {bowlerStat.wides}/{bowlerStat.noBalls}
+                </p>
+              </div>
+              <div>
+                <p className="text-white/50 text-xs uppercase tracking-widest mb-1">
+                  4s/6s
+                </p>
+                <p className="text-white font-semibold">
+                  {bowlerStat.fours}/{bowlerStat.sixes}
                 </p>
               </div>
             </div>
@@ -0,0 +1,72 @@
+"use client";
+
+import { useMemo } from "react";
+import { getFieldingStats } from "@/lib/cricket/engine";
+import type { FieldingStats, Player, PlayerStatsState } from "@/types/cricket";
+
+interface FieldingStatsSidebarProps {
+  bowlingTeamPlayers: Player[];
+  playerStats: PlayerStatsState;
+}
+
+type FielderRow = {
+  player: Player;
+  stats: FieldingStats;
+  dismissals: number;
+};
+
+export default function FieldingStatsSidebar({
+  bowlingTeamPlayers,
+  playerStats,
+}: FieldingStatsSidebarProps) {
+  const fielderRows = useMemo<FielderRow[]>(() => {
+    return Object.keys(playerStats.fielders ?? {})
+      .map((playerId) => {
+        const player = bowlingTeamPlayers.find((p) => p.id === playerId);
+        if (!player) return null;
+        const stats = getFieldingStats(playerStats, playerId);
+        return {
+          player,
+          stats,
+          dismissals:
+            stats.catches +
+            stats.stumpings +
+            stats.run_outs_direct +
+            stats.run_outs_assisted,
+        };
+      })
+      .filter((row): row is FielderRow => !!row && row.dismissals > 0)
+      .sort((a, b) => b.dismissals - a.dismissals);
+  }, [bowlingTeamPlayers, playerStats]);
+
+  if (fielderRows.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="backdrop-blur-xl bg-white/5 border border-white/10 rounded-3xl p-5 text-white space-y-4">
+      <div>
+        <p className="text-xs uppercase tracking-[0.3em] text-white/60">
+          Fielding
+        </p>
+        <p className="text-lg font-semibold mt-1">Fielding Credits</p>
+      </div>
+      <div className="space-y-3">
+        {fielderRows.map((row) => (
+          <div
+            key={row.player.id}
+            className="flex items-center justify-between px-3 py-2 rounded-2xl border border-white/10 bg-white/5"
+          >
+            <p className="text-sm font-semibold">{row.player.name}</p>
+            <p className="text-xs text-white/70 text-right">
+              Ct {row.stats.catches} • St {row.stats.stumpings} • RO{" "}
+              {row.stats.run_outs_direct}
+              {row.stats.run_outs_assisted > 0 &&
+                ` (+${row.stats.run_outs_assisted} assisted)`}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { getExtrasBreakdown, getExtrasTotal } from "@/lib/cricket/engine";
+import { formatOvers } from "@/lib/cricket/format";
+import type { ExtrasBreakdown, FallOfWicket, Player } from "@/types/cricket";
+
+interface InningsBreakdownSidebarProps {
+  extras?: ExtrasBreakdown;
+  fallOfWickets: FallOfWicket[];
+  battingTeamPlayers: Player[]; // For dismissed batters' names
+  ballsPerOver: number;
+}
+
+export default function InningsBreakdownSidebar({
+  extras,
+  fallOfWickets,
+  battingTeamPlayers,
+  ballsPerOver,
+}: InningsBreakdownSidebarProps) {
+  const breakdown = getExtrasBreakdown({ extras });
+  const playerName = (playerId: string) =>
+    battingTeamPlayers.find((player) => player.id === playerId)?.name ?? "Unknown";
+
+  return (
+    <div className="backdrop-blur-xl bg-white/5 border border-white/10 rounded-3xl p-5 text-white space-y-4">
+      <div>
+        <p className="text-xs uppercase tracking-[0.3em] text-white/60">
+          Extras
+        </p>
+        <p className="text-lg font-semibold mt-1">{getExtrasTotal(breakdown)}</p>
+        <p className="text-xs text-white/60 mt-1">
+          w {breakdown.wides}, nb {breakdown.no_balls}, b {breakdown.byes}, lb{" "}
+          {breakdown.leg_byes}
+          {breakdown.penalties > 0 ? `, pen ${breakdown.penalties}` : ""}
+        </p>
+      </div>
+      <div className="space-y-2">
+        <p className="text-xs uppercase tracking-[0.3em] text-white/60">
+          Fall of Wickets
+        </p>
+        {fallOfWickets.length === 0 ? (
+          <p className="text-white/60 text-sm">No wickets yet</p>
+        ) : (
+          fallOfWickets.map((fall) => (
+            <div
+              key={fall.wicket}
+              className="flex items-center justify-between px-3 py-2 rounded-2xl border border-white/10 bg-white/5"
+            >
+              <p className="text-sm">
+                <span className="font-semibold">
+                  {fall.wicket}-{fall.runs}
+                </span>{" "}
+                <span className="text-white/70">{playerName(fall.batter_id)}</span>
+              </p>
+              <p className="text-xs text-white/60">
+                {formatOvers(fall.balls, ballsPerOver)} ov
+              </p>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
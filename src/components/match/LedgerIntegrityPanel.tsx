@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import { repairLiveState, verifyMatchLedger } from "@/lib/firebase/scoring";
+import type { LedgerIssue, LedgerVerificationReport } from "@/types/cricket";
+
+interface LedgerIntegrityPanelProps {
+  matchId: string;
+}
+
+const ISSUE_LABELS: Record<LedgerIssue["type"], string> = {
+  gap: "Gap",
+  duplicate: "Duplicate",
+  drift: "Drift",
+};
+
+const ISSUE_STYLES: Record<LedgerIssue["type"], string> = {
+  gap: "bg-yellow-500/20 border-yellow-400/50 text-yellow-100",
+  duplicate: "bg-orange-500/20 border-orange-400/50 text-orange-100",
+  drift: "bg-red-500/20 border-red-400/50 text-red-100",
+};
+
+export default function LedgerIntegrityPanel({
+  matchId,
+}: LedgerIntegrityPanelProps) {
+  const [report, setReport] = useState<LedgerVerificationReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [error, setError] = useState("");
+
+  const runCheck = async () => {
+    try {
+      setIsChecking(true);
+      setError("");
+      setReport(await verifyMatchLedger(matchId));
+    } catch (err) {
+      console.error("Ledger verification error:", err);
+      setError(err instanceof Error ? err.message : "Failed to verify ledger");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleRepair = async () => {
+    if (
+      !confirm(
+        "Rewrite the live score and player figures from the ball ledger? The current values will be replaced."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setIsRepairing(true);
+      setError("");
+      await repairLiveState(matchId);
+      setReport(await verifyMatchLedger(matchId));
+    } catch (err) {
+      console.error("Ledger repair error:", err);
+      setError(err instanceof Error ? err.message : "Failed to repair live state");
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
+  const hasLiveStateDrift =
+    report?.innings.some((innings) =>
+      innings.issues.some((issue) => issue.field?.startsWith("live_state."))
+    ) ?? false;
+
+  return (
+    <div className="backdrop-blur-xl bg-white/5 border border-white/10 rounded-3xl p-5 text-white space-y-4">
+      <div>
+        <p className="text-xs uppercase tracking-[0.3em] text-white/60">
+          Admin
+        </p>
+        <p className="text-lg font-semibold mt-1">Ledger Integrity</p>
+      </div>
+
+      <button
+        onClick={runCheck}
+        disabled={isChecking || isRepairing}
+        className="w-full py-2 rounded-xl bg-white/10 border border-white/20 text-sm font-semibold hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isChecking ? "Verifying..." : "Verify Ledger"}
+      </button>
+
+      {error && (
+        <p className="text-sm text-red-200">{error}</p>
+      )}
+
+      {report && (
+        <div className="space-y-3">
+          <p
+            className={`text-sm font-semibold ${
+              report.is_consistent ? "text-green-300" : "text-red-300"
+            }`}
+          >
+            {report.is_consistent
+              ? "Ledger and live score agree."
+              : "Inconsistencies found."}
+          </p>
+
+          {report.innings.map((innings) => (
+            <div key={innings.innings_id} className="space-y-2">
+              <p className="text-xs uppercase tracking-widest text-white/60">
+                Innings {innings.innings_id} • {innings.ball_count} ball
+                {innings.ball_count === 1 ? "" : "s"}
+                {innings.replayed_state
+                  ? ` • ${innings.replayed_state.score.runs}/${innings.replayed_state.score.wickets}`
+                  : ""}
+              </p>
+              {innings.issues.length === 0 ? (
+                <p className="text-xs text-white/50">No issues</p>
+              ) : (
+                <div className="space-y-2 max-h-[240px] overflow-y-auto pr-1">
+                  {innings.issues.map((issue, index) => (
+                    <div
+                      key={`${issue.ball_id ?? "innings"}-${issue.field ?? issue.type}-${index}`}
+                      className={`px-3 py-2 rounded-xl border text-xs ${ISSUE_STYLES[issue.type]}`}
+                    >
+                      <span className="font-semibold">
+                        {ISSUE_LABELS[issue.type]}
+                      </span>{" "}
+                      {issue.message}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {hasLiveStateDrift && (
+            <button
+              onClick={handleRepair}
+              disabled={isRepairing || isChecking}
+              className="w-full py-2 rounded-xl bg-linear-to-r from-purple-500 to-pink-500 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isRepairing ? "Repairing..." : "Repair Live State From Ledger"}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
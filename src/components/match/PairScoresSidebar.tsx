@@ -0,0 +1,65 @@
+"use client";
+
+import { formatOvers } from "@/lib/cricket/format";
+import type { PairScore, Player } from "@/types/cricket";
+
+interface PairScoresSidebarProps {
+  innings: {
+    label: string; // e.g. the batting team's name
+    pairScores: PairScore[];
+  }[];
+  players: Player[]; // Both sides, for batter names
+  ballsPerOver: number;
+  dismissalRuns: number; // Runs taken off for each dismissal
+}
+
+export default function PairScoresSidebar({
+  innings,
+  players,
+  ballsPerOver,
+  dismissalRuns,
+}: PairScoresSidebarProps) {
+  const playerName = (playerId: string) =>
+    players.find((player) => player.id === playerId)?.name ?? "Unknown";
+  const battedInnings = innings.filter((entry) => entry.pairScores.length > 0);
+
+  if (battedInnings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="backdrop-blur-xl bg-white/5 border border-white/10 rounded-3xl p-5 text-white space-y-4">
+      <div>
+        <p className="text-xs uppercase tracking-[0.3em] text-white/60">
+          Pairs
+        </p>
+        <p className="text-lg font-semibold mt-1">Pair Scores</p>
+        <p className="text-xs text-white/50 mt-1">
+          -{dismissalRuns} run{dismissalRuns === 1 ? "" : "s"} per dismissal
+        </p>
+      </div>
+      {battedInnings.map((entry) => (
+        <div key={entry.label} className="space-y-2">
+          <p className="text-sm font-semibold text-white/80">{entry.label}</p>
+          {entry.pairScores.map((pair) => (
+            <div
+              key={pair.pair}
+              className="flex items-center justify-between px-3 py-2 rounded-2xl border border-white/10 bg-white/5"
+            >
+              <div>
+                <p className="text-sm font-semibold">Pair {pair.pair}</p>
+                <p className="text-xs text-white/60">
+                  {pair.batter_ids.map(playerName).join(" & ")}
+                </p>
+              </div>
+              <p className="text-xs text-white/70 text-right">
+                <span className="text-sm font-semibold text-white">{pair.runs}</span>{" "}
+                • {pair.wickets} out • {formatOvers(pair.balls, ballsPerOver)} ov
+              </p>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { listInningsBalls } from "@/lib/firebase/scoring";
+import { getBallsPerOver, getRunRate } from "@/lib/cricket/engine";
+import { formatOvers } from "@/lib/cricket/format";
+import { PHASE_LABELS, summarizePhases } from "@/lib/cricket/phases";
+import type { Match, PhaseSummary } from "@/types/cricket";
+
+interface PhaseBreakdownProps {
+  matchId: string;
+  match: Pick<Match, "config" | "teams">;
+  refreshKey?: string; // Changes whenever the ledger may have changed
+}
+
+type InningsPhases = {
+  inningsId: string;
+  teamName: string;
+  phases: PhaseSummary[];
+};
+
+const INNINGS_IDS = ["1", "2"];
+
+export default function PhaseBreakdown({
+  matchId,
+  match,
+  refreshKey,
+}: PhaseBreakdownProps) {
+  const [innings, setInnings] = useState<InningsPhases[]>([]);
+  const ballsPerOver = getBallsPerOver(match.config);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadPhases = async () => {
+      try {
+        const ledgers = await Promise.all(
+          INNINGS_IDS.map((inningsId) => listInningsBalls(matchId, inningsId))
+        );
+        if (cancelled) return;
+        setInnings(
+          ledgers
+            .map((balls, index) => {
+              const teamId = balls[0]?.pre_ball_state.batting_team_id;
+              return {
+                inningsId: INNINGS_IDS[index],
+                teamName:
+                  teamId === "a" || teamId === "b"
+                    ? match.teams[teamId].name
+                    : `Innings ${INNINGS_IDS[index]}`,
+                phases: summarizePhases(match.config, balls),
+              };
+            })
+            .filter((_, index) => ledgers[index].length > 0)
+        );
+      } catch (err) {
+        console.error("Load phase breakdown error:", err);
+      }
+    };
+
+    loadPhases();
+    return () => {
+      cancelled = true;
+    };
+  }, [matchId, match.config, match.teams, refreshKey]);
+
+  if (!match.config.phases?.length || innings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs uppercase tracking-[0.3em] text-white/60">
+        Phase Breakdown
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {innings.map((entry) => (
+          <div
+            key={entry.inningsId}
+            className="p-4 rounded-2xl border border-white/10 bg-white/5 space-y-2"
+          >
+            <p className="text-sm font-semibold">{entry.teamName}</p>
+            {entry.phases.map((phase) => (
+              <div
+                key={phase.start_over}
+                className="flex items-center justify-between text-xs"
+              >
+                <span className="text-white/70">
+                  {PHASE_LABELS[phase.name]} ({phase.start_over}-{phase.end_over})
+                </span>
+                <span className="font-semibold">
+                  {phase.runs}/{phase.wickets} •{" "}
+                  {formatOvers(phase.balls, ballsPerOver)} ov • RR{" "}
+                  {getRunRate(phase.runs, phase.balls, ballsPerOver).toFixed(2)}
+                </span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { listInningsBalls, listUndoneBalls } from "@/lib/firebase/scoring";
+import { formatBallOutcome, formatBallPosition } from "@/lib/cricket/format";
+import type { BallEvent, UndoneBallEvent } from "@/types/cricket";
+
+interface UndoRedoHistoryProps {
+  matchId: string;
+  inningsId: string;
+  refreshKey?: string; // Changes whenever a ball is recorded, undone or redone
+}
+
+const HISTORY_LENGTH = 6;
+
+export default function UndoRedoHistory({
+  matchId,
+  inningsId,
+  refreshKey,
+}: UndoRedoHistoryProps) {
+  const [recentBalls, setRecentBalls] = useState<BallEvent[]>([]);
+  const [undoneBalls, setUndoneBalls] = useState<UndoneBallEvent[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      try {
+        const [ledger, undone] = await Promise.all([
+          listInningsBalls(matchId, inningsId),
+          listUndoneBalls(matchId, inningsId),
+        ]);
+        if (!cancelled) {
+          setRecentBalls(ledger.slice(-HISTORY_LENGTH).reverse());
+          setUndoneBalls(undone);
+        }
+      } catch (err) {
+        console.error("Load undo history error:", err);
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [matchId, inningsId, refreshKey]);
+
+  if (recentBalls.length === 0 && undoneBalls.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs">
+      <div className="p-3 rounded-2xl border border-white/10 bg-white/5">
+        <p className="uppercase tracking-widest text-white/50 mb-2">
+          Undo History
+        </p>
+        {recentBalls.length === 0 ? (
+          <p className="text-white/50">Nothing to undo</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {recentBalls.map((ball, index) => (
+              <span
+                key={`${ball.id}-${index}`}
+                className={`px-2 py-1 rounded-lg border ${
+                  index === 0
+                    ? "border-yellow-300/60 bg-yellow-400/20"
+                    : "border-white/10 bg-white/5 text-white/70"
+                }`}
+              >
+                {formatBallPosition(ball)} • {formatBallOutcome(ball)}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="p-3 rounded-2xl border border-white/10 bg-white/5">
+        <p className="uppercase tracking-widest text-white/50 mb-2">
+          Redo Stack
+        </p>
+        {undoneBalls.length === 0 ? (
+          <p className="text-white/50">Nothing to redo</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {undoneBalls.map((ball, index) => (
+              <span
+                key={`${ball.id}-${index}`}
+                className={`px-2 py-1 rounded-lg border ${
+                  index === 0
+                    ? "border-sky-300/60 bg-sky-400/20"
+                    : "border-white/10 bg-white/5 text-white/70"
+                }`}
+              >
+                {formatBallPosition(ball)} • {formatBallOutcome(ball)}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
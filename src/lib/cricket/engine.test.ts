@@ -0,0 +1,644 @@
+import { describe, expect, it } from "vitest";
+import {
+  ExtraType,
+  WicketType,
+  type BallInput,
+  type InningsSummary,
+  type TeamId,
+} from "@/types/cricket";
+import {
+  allowedDismissals,
+  applySelections,
+  ballEventToInput,
+  evaluateResult,
+  getBowlerBallsRemaining,
+  getMaxOversPerBowler,
+  replayInnings,
+  validateBall,
+  validateDismissal,
+  withInningsClosure,
+} from "@/lib/cricket/engine";
+import {
+  buildMatch,
+  chaseState,
+  dot,
+  firstInningsState,
+  play,
+} from "@/test/fixtures";
+
+describe("extras", () => {
+  it("scores a wide against the bowler without using up a ball", () => {
+    const { state } = play(buildMatch(), firstInningsState(), [
+      { runs_off_bat: 0, extras: { type: ExtraType.WIDE, runs: 1 } },
+    ]);
+
+    expect(state.score).toEqual({ runs: 1, wickets: 0, overs: 0, balls: 0 });
+    expect(state.player_stats?.bowlers.b1).toMatchObject({ runs: 1, balls: 0 });
+    expect(state.player_stats?.batters.a1).toMatchObject({ runs: 0, balls: 0 });
+    expect(state.striker_id).toBe("a1");
+  });
+
+  it("credits runs off a no-ball to the batter and earns a free hit", () => {
+    const { state } = play(buildMatch(), firstInningsState(), [
+      { runs_off_bat: 4, extras: { type: ExtraType.NO_BALL, runs: 1 } },
+    ]);
+
+    expect(state.score).toEqual({ runs: 5, wickets: 0, overs: 0, balls: 0 });
+    expect(state.player_stats?.batters.a1).toMatchObject({ runs: 4, balls: 0 });
+    expect(state.player_stats?.bowlers.b1).toMatchObject({ runs: 5, balls: 0 });
+    expect(state.is_free_hit).toBe(true);
+  });
+
+  it("counts byes as a ball faced without charging the bowler", () => {
+    const { state } = play(buildMatch(), firstInningsState(), [
+      { runs_off_bat: 0, extras: { type: ExtraType.BYE, runs: 2 } },
+    ]);
+
+    expect(state.score).toEqual({ runs: 2, wickets: 0, overs: 0, balls: 1 });
+    expect(state.player_stats?.batters.a1).toMatchObject({ runs: 0, balls: 1 });
+    expect(state.player_stats?.bowlers.b1).toMatchObject({ runs: 0, balls: 1 });
+  });
+
+  it("does not charge leg-byes to the bowler", () => {
+    const { state } = play(buildMatch(), firstInningsState(), [
+      { runs_off_bat: 0, extras: { type: ExtraType.LEG_BYE, runs: 4 } },
+    ]);
+
+    expect(state.score).toEqual({ runs: 4, wickets: 0, overs: 0, balls: 1 });
+    expect(state.player_stats?.bowlers.b1).toMatchObject({ runs: 0, balls: 1 });
+  });
+});
+
+describe("bowling figures", () => {
+  it("counts a maiden only for an over bowled without a run conceded", () => {
+    const match = buildMatch();
+    const { state } = play(match, firstInningsState(), [
+      ...Array(5).fill(dot),
+      { runs_off_bat: 0, extras: { type: ExtraType.LEG_BYE, runs: 1 } },
+    ]);
+    const { state: secondOver } = play(match, { ...state, bowler_id: "b2" }, [
+      ...Array(5).fill(dot),
+      { runs_off_bat: 0, extras: { type: ExtraType.WIDE, runs: 1 } },
+      dot,
+    ]);
+
+    expect(state.player_stats?.bowlers.b1).toMatchObject({ maidens: 1, dots: 6 });
+    expect(secondOver.player_stats?.bowlers.b2).toMatchObject({
+      maidens: 0,
+      runs: 1,
+      wides: 1,
+      dots: 6,
+    });
+  });
+
+  it("counts fours and sixes only off balls hit to the boundary", () => {
+    const { state, balls } = play(buildMatch(), firstInningsState(), [
+      { runs_off_bat: 4, boundary: true },
+      { runs_off_bat: 4 },
+      { runs_off_bat: 6, boundary: true },
+    ]);
+
+    expect(state.player_stats?.batters.a1).toMatchObject({ runs: 14, fours: 1, sixes: 1 });
+    expect(state.player_stats?.bowlers.b1).toMatchObject({ runs: 14, fours: 1, sixes: 1 });
+    expect(balls.map((ball) => ball.boundary)).toEqual([true, false, true]);
+  });
+
+  it("reads a 4 or 6 recorded before the boundary flag as a boundary", () => {
+    const { balls } = play(buildMatch(), firstInningsState(), [{ runs_off_bat: 6 }]);
+    const legacyBall = { ...balls[0] };
+    delete legacyBall.boundary;
+
+    expect(ballEventToInput(legacyBall)).toEqual({ runs_off_bat: 6, boundary: true });
+  });
+});
+
+describe("penalty runs", () => {
+  const penalty = (team_id: "a" | "b"): BallInput => ({
+    runs_off_bat: 0,
+    extras: { type: ExtraType.PENALTY, runs: 5 },
+    penalty: { team_id, reason: "Ball tampering" },
+  });
+
+  it("adds runs awarded to the batting side without a ball or any figures", () => {
+    const { state, balls } = play(buildMatch(), firstInningsState(), [penalty("a")]);
+
+    expect(state.score).toEqual({ runs: 5, wickets: 0, overs: 0, balls: 0 });
+    expect(state.player_stats?.bowlers.b1).toBeUndefined();
+    expect(balls[0].penalty).toEqual({ team_id: "a", reason: "Ball tampering" });
+  });
+
+  it("adds runs awarded to the defending side to the target", () => {
+    const match = buildMatch({ total_overs: 1 });
+    const { state } = play(match, chaseState(), [penalty("a")]);
+    const { result } = play(match, state, Array(6).fill({ runs_off_bat: 2 }));
+
+    expect(state.score.runs).toBe(0);
+    expect(state.fielding_penalty_runs).toBe(5);
+    expect(result).toMatchObject({ type: "win", winner_team_id: "a", first_innings_runs: 15 });
+  });
+
+  it("is not accepted as a delivery", () => {
+    expect(() => validateBall(firstInningsState(), buildMatch(), penalty("a"))).toThrow(
+      "Penalty runs are not a delivery. Award them separately."
+    );
+  });
+});
+
+describe("free hits", () => {
+  const noBall: BallInput = { runs_off_bat: 0, extras: { type: ExtraType.NO_BALL, runs: 1 } };
+
+  it("only allows a run out off a free hit", () => {
+    const match = buildMatch();
+    const { state } = play(match, firstInningsState(), [noBall]);
+
+    expect(allowedDismissals(undefined, true, true)).toEqual([
+      WicketType.RUN_OUT,
+      WicketType.RETIRED,
+      WicketType.RETIRED_HURT,
+    ]);
+    expect(() =>
+      validateBall(state, match, {
+        runs_off_bat: 0,
+        wicket: { type: WicketType.CAUGHT, player_id: "a1", is_striker_out: true },
+      })
+    ).toThrow("Free hit: the batter can only be run out.");
+    expect(() =>
+      validateBall(state, match, {
+        runs_off_bat: 0,
+        wicket: { type: WicketType.RUN_OUT, player_id: "a1", is_striker_out: true },
+      })
+    ).not.toThrow();
+  });
+
+  it("carries the free hit over a wide but not over a legal ball", () => {
+    const { state: afterWide } = play(buildMatch(), firstInningsState(), [
+      noBall,
+      { runs_off_bat: 0, extras: { type: ExtraType.WIDE, runs: 1 } },
+    ]);
+    const { state: afterDot } = play(buildMatch(), afterWide, [dot]);
+
+    expect(afterWide.is_free_hit).toBe(true);
+    expect(afterDot.is_free_hit).toBe(false);
+  });
+});
+
+describe("wickets", () => {
+  it("credits a bowled wicket to the bowler and leaves the striker's end vacant", () => {
+    const { state } = play(buildMatch(), firstInningsState(), [
+      {
+        runs_off_bat: 0,
+        wicket: { type: WicketType.BOWLED, player_id: "a1", is_striker_out: true },
+      },
+    ]);
+
+    expect(state.score).toEqual({ runs: 0, wickets: 1, overs: 0, balls: 1 });
+    expect(state.player_stats?.bowlers.b1).toMatchObject({ wickets: 1 });
+    expect(state.dismissed_batter_ids).toEqual(["a1"]);
+    expect(state.striker_id).toBe("");
+    expect(state.non_striker_id).toBe("a2");
+  });
+
+  it("does not credit a run out of the non-striker to the bowler", () => {
+    const { state } = play(buildMatch(), firstInningsState(), [
+      {
+        runs_off_bat: 0,
+        wicket: { type: WicketType.RUN_OUT, player_id: "a2", is_striker_out: false },
+      },
+    ]);
+
+    expect(state.score.wickets).toBe(1);
+    expect(state.player_stats?.bowlers.b1).toMatchObject({ wickets: 0 });
+    expect(state.striker_id).toBe("a1");
+    expect(state.non_striker_id).toBe("");
+  });
+
+  it("refuses a ball that dismisses a batter who is already out", () => {
+    const { state } = play(buildMatch(), firstInningsState(), [
+      {
+        runs_off_bat: 0,
+        wicket: { type: WicketType.BOWLED, player_id: "a1", is_striker_out: true },
+      },
+    ]);
+
+    expect(() =>
+      validateBall({ ...state, striker_id: "a3" }, buildMatch(), {
+        runs_off_bat: 0,
+        wicket: { type: WicketType.BOWLED, player_id: "a1", is_striker_out: true },
+      })
+    ).toThrow("This batter has already been dismissed.");
+  });
+});
+
+describe("retirements", () => {
+  const retire = (type: WicketType, player_id: string): BallInput => ({
+    runs_off_bat: 0,
+    wicket: { type, player_id, is_striker_out: true },
+  });
+
+  it("counts retired out as a wicket without a ball or a bowler's credit", () => {
+    const { state } = play(buildMatch(), firstInningsState(), [
+      dot,
+      retire(WicketType.RETIRED, "a1"),
+    ]);
+
+    expect(state.score).toEqual({ runs: 0, wickets: 1, overs: 0, balls: 1 });
+    expect(state.dismissed_batter_ids).toEqual(["a1"]);
+    expect(state.player_stats?.bowlers.b1).toMatchObject({ wickets: 0, balls: 1 });
+    expect(state.striker_id).toBe("");
+  });
+
+  it("lets a batter who retired hurt resume with their runs intact", () => {
+    const { state } = play(buildMatch(), firstInningsState(), [
+      { runs_off_bat: 2 },
+      retire(WicketType.RETIRED_HURT, "a1"),
+    ]);
+
+    expect(state.score).toMatchObject({ runs: 2, wickets: 0, balls: 1 });
+    expect(state.retired_hurt_ids).toEqual(["a1"]);
+    expect(state.dismissed_batter_ids).toEqual([]);
+
+    const resumed = applySelections(state, { ...state, striker_id: "a1" });
+
+    expect(resumed.retired_hurt_ids).toEqual([]);
+    expect(resumed.player_stats?.batters.a1).toMatchObject({ runs: 2 });
+    expect(resumed.player_stats?.batters.a1?.dismissal).toBeUndefined();
+  });
+
+  it("must be recorded apart from a delivery", () => {
+    expect(() =>
+      validateBall(firstInningsState(), buildMatch(), {
+        ...retire(WicketType.RETIRED_HURT, "a1"),
+        runs_off_bat: 1,
+      })
+    ).toThrow("Record the delivery first, then the retirement on its own.");
+  });
+});
+
+describe("strike rotation", () => {
+  it("changes strike on a single", () => {
+    const { state } = play(buildMatch(), firstInningsState(), [{ runs_off_bat: 1 }]);
+
+    expect(state.striker_id).toBe("a2");
+    expect(state.non_striker_id).toBe("a1");
+  });
+
+  it("swaps ends and bars the bowler from the next over once an over is complete", () => {
+    const match = buildMatch();
+    const { state } = play(match, firstInningsState(), Array(6).fill(dot));
+
+    expect(state.score).toEqual({ runs: 0, wickets: 0, overs: 1, balls: 0 });
+    expect(state.striker_id).toBe("a2");
+    expect(state.non_striker_id).toBe("a1");
+    expect(state.last_bowler_id).toBe("b1");
+    expect(() => validateBall(state, match, dot)).toThrow(/select a new bowler/);
+  });
+
+  it("keeps the striker on strike after a single off the last ball", () => {
+    const { state } = play(buildMatch(), firstInningsState(), [
+      ...Array(5).fill(dot),
+      { runs_off_bat: 1 },
+    ]);
+
+    expect(state.striker_id).toBe("a1");
+    expect(state.non_striker_id).toBe("a2");
+  });
+
+  it("changes strike on runs run off leg-byes and wides", () => {
+    const { state } = play(buildMatch(), firstInningsState(), [
+      { runs_off_bat: 0, extras: { type: ExtraType.LEG_BYE, runs: 1 } },
+      { runs_off_bat: 0, extras: { type: ExtraType.WIDE, runs: 2 } },
+    ]);
+
+    expect(state.score).toMatchObject({ runs: 3, balls: 1 });
+    expect(state.striker_id).toBe("a1");
+    expect(state.non_striker_id).toBe("a2");
+  });
+
+  it("does not change strike for the wide penalty alone", () => {
+    const { state } = play(buildMatch({ wide_runs: 2 }), firstInningsState(), [
+      { runs_off_bat: 0, extras: { type: ExtraType.WIDE, runs: 2 } },
+    ]);
+
+    expect(state.score.runs).toBe(2);
+    expect(state.striker_id).toBe("a1");
+  });
+});
+
+describe("run outs", () => {
+  it("keeps the runs completed before the wicket and leaves the vacancy where it fell", () => {
+    const { state } = play(buildMatch(), firstInningsState(), [
+      {
+        runs_off_bat: 1,
+        wicket: {
+          type: WicketType.RUN_OUT,
+          player_id: "a1",
+          is_striker_out: true,
+          dismissal_end: "striker",
+        },
+      },
+    ]);
+
+    expect(state.score).toMatchObject({ runs: 1, wickets: 1 });
+    expect(state.player_stats?.batters.a1).toMatchObject({ runs: 1, balls: 1 });
+    expect(state.striker_id).toBe("");
+    expect(state.non_striker_id).toBe("a2");
+  });
+
+  it("brings the new batter in at the non-striker's end when the wicket is broken there", () => {
+    const { state } = play(buildMatch(), firstInningsState(), [
+      {
+        runs_off_bat: 0,
+        wicket: {
+          type: WicketType.RUN_OUT,
+          player_id: "a1",
+          is_striker_out: true,
+          dismissal_end: "non_striker",
+        },
+      },
+    ]);
+
+    expect(state.striker_id).toBe("a2");
+    expect(state.non_striker_id).toBe("");
+  });
+
+  it("rejects dismissals that cannot happen off the delivery", () => {
+    expect(() =>
+      validateDismissal({
+        runs_off_bat: 0,
+        extras: { type: ExtraType.NO_BALL, runs: 1 },
+        wicket: { type: WicketType.BOWLED, player_id: "a1", is_striker_out: true },
+      })
+    ).toThrow("Only a run out is possible off a no-ball.");
+    expect(() =>
+      validateDismissal({
+        runs_off_bat: 0,
+        wicket: { type: WicketType.STUMPED, player_id: "a2", is_striker_out: false },
+      })
+    ).toThrow("The non-striker can only be run out.");
+  });
+});
+
+describe("bowler quota", () => {
+  it("stops a bowler once a fifth of the overs is bowled", () => {
+    const match = buildMatch({ total_overs: 10 });
+    const { state: firstOver } = play(match, firstInningsState(), Array(6).fill(dot));
+    const { state: secondOver } = play(
+      match,
+      { ...firstOver, bowler_id: "b2" },
+      Array(6).fill(dot)
+    );
+    const { state: thirdOver } = play(
+      match,
+      { ...secondOver, bowler_id: "b1" },
+      Array(6).fill(dot)
+    );
+
+    expect(getBowlerBallsRemaining(match.config, thirdOver.player_stats, "b1")).toBe(0);
+    expect(() =>
+      validateBall({ ...thirdOver, bowler_id: "b1", last_bowler_id: "b3" }, match, dot)
+    ).toThrow("This bowler has bowled their 2-over quota. Please select a different bowler.");
+  });
+
+  it("uses the configured quota when there is one", () => {
+    const match = buildMatch({ total_overs: 10, max_overs_per_bowler: 1 });
+    const { state } = play(match, firstInningsState(), Array(6).fill(dot));
+
+    expect(getBowlerBallsRemaining(match.config, state.player_stats, "b1")).toBe(0);
+    expect(getBowlerBallsRemaining(match.config, state.player_stats, "b2")).toBe(6);
+  });
+
+  it("has no quota when each side bats twice unless one is configured", () => {
+    const match = buildMatch({ innings_per_side: 2 });
+    const { state } = play(match, firstInningsState(), Array(6).fill(dot));
+
+    expect(getMaxOversPerBowler(match.config)).toBeNull();
+    expect(getBowlerBallsRemaining(match.config, state.player_stats, "b1")).toBeNull();
+    expect(getMaxOversPerBowler({ ...match.config, max_overs_per_bowler: 1 })).toBe(1);
+  });
+});
+
+describe("balls per over", () => {
+  it("completes the over after the configured number of legal balls", () => {
+    const match = buildMatch({ balls_per_over: 5 });
+    const { state } = play(match, firstInningsState(), [
+      ...Array(4).fill(dot),
+      { runs_off_bat: 0, extras: { type: ExtraType.WIDE, runs: 1 } },
+      dot,
+    ]);
+
+    expect(state.score).toEqual({ runs: 1, wickets: 0, overs: 1, balls: 0 });
+    expect(state.striker_id).toBe("a2");
+    expect(state.last_bowler_id).toBe("b1");
+  });
+
+  it("keeps the ends and lets the bowler carry on after the first set of ten from one end", () => {
+    const match = buildMatch({
+      total_overs: 10,
+      balls_per_over: 5,
+      ten_from_one_end: true,
+    });
+    const { state } = play(match, firstInningsState(), Array(5).fill(dot));
+    const { state: secondSet } = play(match, state, Array(5).fill(dot));
+
+    expect(state.score).toMatchObject({ overs: 1, balls: 0 });
+    expect(state.striker_id).toBe("a1");
+    expect(state.last_bowler_id).toBeUndefined();
+    expect(() => validateBall(state, match, dot)).not.toThrow();
+    expect(secondSet.striker_id).toBe("a2");
+    expect(secondSet.last_bowler_id).toBe("b1");
+  });
+});
+
+describe("chase results", () => {
+  it("is a win by wickets for the chasing side once it passes the target", () => {
+    const { result } = play(buildMatch({ total_overs: 1 }), chaseState(), [
+      { runs_off_bat: 6 },
+      { runs_off_bat: 4 },
+      { runs_off_bat: 1 },
+    ]);
+
+    expect(result).toMatchObject({
+      type: "win",
+      winner_team_id: "b",
+      loser_team_id: "a",
+      margin: "4 wickets",
+      first_innings_runs: 10,
+      second_innings_runs: 11,
+    });
+  });
+
+  it("is a win by runs for the defending side when the overs run out short", () => {
+    const { result } = play(buildMatch({ total_overs: 1 }), chaseState(), Array(6).fill(dot));
+
+    expect(result).toMatchObject({
+      type: "win",
+      winner_team_id: "a",
+      loser_team_id: "b",
+      margin: "10 runs",
+    });
+  });
+
+  it("is a tie when the chasing side finishes level", () => {
+    const { result } = play(
+      buildMatch({ total_overs: 1 }),
+      chaseState({ runs: 9, balls: 5 }),
+      [{ runs_off_bat: 1 }]
+    );
+
+    expect(result).toMatchObject({ type: "tie", second_innings_runs: 10 });
+  });
+
+  it("has no result while the chase is still on", () => {
+    const match = buildMatch({ total_overs: 1 });
+    const { state, result } = play(match, chaseState(), [{ runs_off_bat: 4 }]);
+
+    expect(result).toBeNull();
+    expect(evaluateResult(state, match)).toBeNull();
+  });
+});
+
+describe("last man stands", () => {
+  const bowled = (player_id: string): BallInput => ({
+    runs_off_bat: 0,
+    wicket: { type: WicketType.BOWLED, player_id, is_striker_out: true },
+  });
+
+  it("ends the innings one wicket early without it", () => {
+    const { result } = play(buildMatch({ total_overs: 1 }), chaseState({ wickets: 3 }), [
+      bowled("b1"),
+    ]);
+
+    expect(result).toMatchObject({ type: "win", winner_team_id: "a", margin: "10 runs" });
+  });
+
+  it("lets the last batter bat on alone, keeping strike, until they are out", () => {
+    const match = buildMatch({ total_overs: 1, last_man_stands: true });
+    const { state, result } = play(match, chaseState({ wickets: 3 }), [
+      bowled("b1"),
+      { runs_off_bat: 1 },
+    ]);
+
+    expect(result).toBeNull();
+    expect(state.striker_id).toBe("b2");
+    expect(state.non_striker_id).toBe("");
+
+    const { result: allOut } = play(match, state, [bowled("b2")]);
+
+    expect(allOut).toMatchObject({ type: "win", winner_team_id: "a", margin: "9 runs" });
+  });
+});
+
+describe("declarations", () => {
+  const twoInningsMatch = (innings_summaries: InningsSummary[]) => ({
+    ...buildMatch({ innings_per_side: 2 }),
+    innings_summaries,
+  });
+  const summary = (innings: number, batting_team_id: TeamId, runs: number): InningsSummary => ({
+    innings,
+    batting_team_id,
+    bowling_team_id: batting_team_id === "a" ? "b" : "a",
+    score: { runs, wickets: 2, overs: 2, balls: 0 },
+  });
+
+  it("accepts no more balls once the innings is declared", () => {
+    expect(() =>
+      validateBall({ ...firstInningsState(), declared: true }, buildMatch(), dot)
+    ).toThrow("Innings declared. Please start the next innings.");
+  });
+
+  it("loses by an innings when the side following on declares still behind", () => {
+    const match = twoInningsMatch([summary(1, "a", 30), summary(2, "b", 10)]);
+    const state = {
+      ...chaseState({ runs: 5 }),
+      current_innings: 3,
+      follow_on: true,
+      declared: true,
+    };
+
+    expect(evaluateResult(state, match)).toMatchObject({
+      type: "win",
+      winner_team_id: "a",
+      margin: "an innings and 15 runs",
+      first_innings_runs: 30,
+      second_innings_runs: 15,
+    });
+  });
+
+  it("draws when the last innings is declared short of the target", () => {
+    const match = twoInningsMatch([
+      summary(1, "a", 20),
+      summary(2, "b", 15),
+      summary(3, "a", 10),
+    ]);
+    const state = { ...chaseState({ runs: 5 }), current_innings: 4 };
+
+    expect(evaluateResult(state, match)).toBeNull();
+    expect(evaluateResult({ ...state, declared: true }, match)).toMatchObject({
+      type: "draw",
+      first_innings_runs: 30,
+      second_innings_runs: 20,
+    });
+  });
+});
+
+describe("innings closure", () => {
+  it("closes the innings when the overs run out", () => {
+    const match = buildMatch({ total_overs: 1 });
+    const { state } = play(match, firstInningsState(), Array(6).fill(dot));
+
+    expect(state.innings_closed).toBe("overs_complete");
+  });
+
+  it("refuses balls once the innings is closed", () => {
+    expect(() =>
+      validateBall({ ...firstInningsState(), innings_closed: "all_out" }, buildMatch(), dot)
+    ).toThrow("Innings closed. Please start the next innings.");
+  });
+
+  it("closes the chase the moment the target is reached", () => {
+    const { state } = play(buildMatch({ total_overs: 1 }), chaseState(), [
+      { runs_off_bat: 6 },
+      { runs_off_bat: 6 },
+    ]);
+
+    expect(state.innings_closed).toBe("target_reached");
+  });
+
+  it("reopens an innings once it can go on again", () => {
+    const match = buildMatch({ total_overs: 1 });
+    const { state } = play(match, firstInningsState(), Array(6).fill(dot));
+
+    expect(
+      withInningsClosure(state, buildMatch({ total_overs: 2 })).innings_closed
+    ).toBeUndefined();
+  });
+});
+
+describe("replayInnings", () => {
+  it("rebuilds the same state and result as scoring the balls live", () => {
+    const match = buildMatch({ total_overs: 1 });
+    const first = play(match, chaseState(), [
+      { runs_off_bat: 1 },
+      { runs_off_bat: 0, extras: { type: ExtraType.WIDE, runs: 1 } },
+      {
+        runs_off_bat: 0,
+        wicket: { type: WicketType.BOWLED, player_id: "b2", is_striker_out: true },
+      },
+    ]);
+    // The new batter is selected between balls
+    const live = play(match, { ...first.state, striker_id: "b3" }, [
+      { runs_off_bat: 4, extras: { type: ExtraType.NO_BALL, runs: 1 } },
+      { runs_off_bat: 0, extras: { type: ExtraType.LEG_BYE, runs: 2 } },
+      { runs_off_bat: 2 },
+    ]);
+
+    const replayed = replayInnings(match, [...first.balls, ...live.balls]);
+
+    expect(live.result).toMatchObject({ type: "win", winner_team_id: "b" });
+    expect(replayed.result).toEqual(live.result);
+    expect(replayed.state.score).toEqual(live.state.score);
+    expect(replayed.state.player_stats).toEqual(live.state.player_stats);
+    expect(replayed.state.striker_id).toBe(live.state.striker_id);
+    expect(replayed.state.non_striker_id).toBe(live.state.non_striker_id);
+  });
+});
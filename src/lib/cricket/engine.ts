@@ -0,0 +1,1823 @@
+/**
+ * Scoring Engine
+ *
+ * Pure, Firestore-free cricket rules. Every function in this module takes
+ * plain match data and returns new values without touching the database,
+ * so the same logic is used to record a live ball inside a transaction and
+ * to rebuild a MatchLiveState by replaying the ball ledger.
+ */
+
+import type {
+  BallEvent,
+  BallInput,
+  BatterStats,
+  CreaseEnd,
+  BowlerStats,
+  ExtrasBreakdown,
+  FallOfWicket,
+  FieldingStats,
+  HouseRules,
+  Innings,
+  InningsCloseReason,
+  Match,
+  MatchConfig,
+  MatchLiveState,
+  MatchResult,
+  OverBall,
+  OverTally,
+  PlayerStatsState,
+  Score,
+  SuperOver,
+  TeamId,
+} from "@/types/cricket";
+import { ExtraType, WicketType } from "@/types/cricket";
+import { getInningsPerSide, getLead, getSideRuns } from "@/lib/cricket/innings";
+import {
+  getNextPair,
+  getPairNumber,
+  isPairComplete,
+  recordPairBall,
+} from "@/lib/cricket/pairs";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * The parts of a Match document the engine needs to score a ball.
+ */
+export type EngineMatch = Pick<
+  Match,
+  "id" | "config" | "teams" | "revised_target" | "super_over" | "innings_summaries"
+>;
+
+export interface ApplyBallOptions {
+  inningsId: string; // Innings sub-collection the ball belongs to
+  ballId?: string; // Reuse an existing ledger id (replays); generated when omitted
+}
+
+export interface ApplyBallResult {
+  state: MatchLiveState; // Live state after the ball
+  ballEvent: BallEvent; // Ledger entry describing the ball (timestamp left null)
+  result: MatchResult | null; // Final result if this ball ended the match
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export const DEFAULT_PENALTY_RUNS = 5;
+export const DEFAULT_BALLS_PER_OVER = 6;
+// A super over is one over a side with three batters, so two wickets end it
+export const SUPER_OVER_OVERS = 1;
+export const SUPER_OVER_WICKETS = 2;
+
+/**
+ * Legal balls in an over for the match (6 unless configured otherwise).
+ */
+export const getBallsPerOver = (
+  config?: Pick<MatchConfig, "balls_per_over">
+): number => config?.balls_per_over ?? DEFAULT_BALLS_PER_OVER;
+
+/**
+ * Overs allotted to the innings in play: one in a super over, otherwise the
+ * match's overs per innings.
+ */
+export const getInningsOvers = (
+  state: Pick<MatchLiveState, "super_over">,
+  config: Pick<MatchConfig, "total_overs">
+): number => (state.super_over ? SUPER_OVER_OVERS : config.total_overs);
+
+/**
+ * Legal balls bowled so far in the innings.
+ */
+export const getLegalBalls = (
+  score: Pick<Score, "overs" | "balls">,
+  ballsPerOver: number
+): number => score.overs * ballsPerOver + score.balls;
+
+/**
+ * Whether the ends change once the given number of overs is complete.
+ * With "10 from one end", two 5-ball sets are bowled from each end, so the
+ * ends only change after every second set.
+ */
+export const endsChangeAfterOver = (
+  config: Pick<MatchConfig, "ten_from_one_end">,
+  oversCompleted: number
+): boolean => !config.ten_from_one_end || oversCompleted % 2 === 0;
+
+/**
+ * Runs per over from a run total and the legal balls it took.
+ */
+export const getRunRate = (
+  runs: number,
+  legalBalls: number,
+  ballsPerOver: number = DEFAULT_BALLS_PER_OVER
+): number => (legalBalls > 0 ? (runs / legalBalls) * ballsPerOver : 0);
+
+export const deepCloneState = (state: MatchLiveState): MatchLiveState =>
+  JSON.parse(JSON.stringify(state));
+
+export const calculateRuns = (ballInput: BallInput): number => {
+  const extrasRuns = ballInput.extras?.runs ?? 0;
+  return ballInput.runs_off_bat + extrasRuns;
+};
+
+const EXTRAS_FIELDS: Record<ExtraType, keyof ExtrasBreakdown> = {
+  [ExtraType.WIDE]: "wides",
+  [ExtraType.NO_BALL]: "no_balls",
+  [ExtraType.BYE]: "byes",
+  [ExtraType.LEG_BYE]: "leg_byes",
+  [ExtraType.PENALTY]: "penalties",
+};
+
+/**
+ * Extras conceded so far in the innings, by kind (all zero when none).
+ */
+export const getExtrasBreakdown = (
+  state: Pick<MatchLiveState, "extras">
+): ExtrasBreakdown => ({
+  wides: 0,
+  no_balls: 0,
+  byes: 0,
+  leg_byes: 0,
+  penalties: 0,
+  ...state.extras,
+});
+
+export const getExtrasTotal = (extras: ExtrasBreakdown): number =>
+  extras.wides + extras.no_balls + extras.byes + extras.leg_byes + extras.penalties;
+
+const addExtras = (
+  state: Pick<MatchLiveState, "extras">,
+  extras: NonNullable<BallInput["extras"]>
+): ExtrasBreakdown => {
+  const breakdown = getExtrasBreakdown(state);
+  const field = EXTRAS_FIELDS[extras.type];
+  return { ...breakdown, [field]: breakdown[field] + extras.runs };
+};
+
+/**
+ * Fall of wickets with the wicket that has just fallen added (the score
+ * already includes it).
+ */
+const addFallOfWicket = (
+  state: Pick<MatchLiveState, "fall_of_wickets" | "score">,
+  batterId: string,
+  ballsPerOver: number
+): FallOfWicket[] => [
+  ...(state.fall_of_wickets ?? []),
+  {
+    wicket: state.score.wickets,
+    batter_id: batterId,
+    runs: state.score.runs,
+    balls: getLegalBalls(state.score, ballsPerOver),
+  },
+];
+
+export const isLegalDelivery = (
+  extras?: BallInput["extras"] | BallEvent["extras"]
+): boolean => {
+  if (!extras?.type) return true;
+  return ![ExtraType.WIDE, ExtraType.NO_BALL, ExtraType.PENALTY].includes(
+    extras.type
+  );
+};
+
+/**
+ * Penalty awards share the ledger with deliveries but are not balls bowled.
+ */
+export const isPenaltyEvent = (
+  extras?: BallInput["extras"] | BallEvent["extras"]
+): boolean => extras?.type === ExtraType.PENALTY;
+
+/**
+ * Runs the team batting first finished on: its innings total plus any
+ * penalty runs awarded to it while fielding in the second innings.
+ */
+export const getFirstInningsRuns = (state: MatchLiveState): number | null => {
+  if (state.first_innings_total == null) return null;
+  return (
+    state.first_innings_total +
+    (state.current_innings === 2 ? state.fielding_penalty_runs ?? 0 : 0)
+  );
+};
+
+/**
+ * Runs the chasing side needs to win: the revised target when overs were
+ * cut (already worked out from the runs it was set on), otherwise one more
+ * than the first-innings runs. Null before the second innings.
+ */
+export const getTarget = (
+  state: MatchLiveState,
+  match: Pick<Match, "revised_target">
+): number | null => {
+  const firstInningsRuns = getFirstInningsRuns(state);
+  if (firstInningsRuns == null) return null;
+  // Overs cut in the match itself do not carry into a super over
+  if (state.super_over) return firstInningsRuns + 1;
+  return match.revised_target ?? firstInningsRuns + 1;
+};
+
+export const wicketCountsForBowler = (type?: WicketType | null): boolean => {
+  if (!type) return false;
+  return ![WicketType.RUN_OUT, WicketType.RETIRED, WicketType.RETIRED_HURT].includes(
+    type
+  );
+};
+
+/**
+ * A batter retiring (hurt or out) is recorded in the ledger between balls.
+ */
+export const isRetirement = (type?: WicketType | null): boolean =>
+  type === WicketType.RETIRED || type === WicketType.RETIRED_HURT;
+
+type LedgerEventFields = {
+  extras?: BallInput["extras"] | BallEvent["extras"];
+  wicket?: { type: WicketType | null; backing_up?: boolean } | null;
+};
+
+/**
+ * Whether a ledger entry is a delivery at all (penalty awards, retirements
+ * and a non-striker run out backing up before the ball are not).
+ */
+export const isDeliveryEvent = (event: LedgerEventFields): boolean =>
+  !isPenaltyEvent(event.extras) &&
+  !isRetirement(event.wicket?.type) &&
+  !event.wicket?.backing_up;
+
+/**
+ * Runs a dismissal takes off the batting side's total in pairs cricket (0
+ * otherwise). Retiring costs nothing.
+ */
+export const getDismissalDeduction = (
+  config: Pick<MatchConfig, "pairs">,
+  ballInput: Pick<BallInput, "wicket">
+): number =>
+  config.pairs && ballInput.wicket?.player_id && !isRetirement(ballInput.wicket.type)
+    ? config.pairs.dismissal_runs
+    : 0;
+
+/**
+ * Which boundary, if any, the runs off the bat were. Only a ball recorded as
+ * a boundary counts as a four or six: four all run is not a four.
+ */
+const getBoundaryHit = (ballInput: BallInput): "four" | "six" | null =>
+  !ballInput.boundary || ballInput.runs_off_bat === 0
+    ? null
+    : ballInput.runs_off_bat === 6
+    ? "six"
+    : "four";
+
+/**
+ * End the new batter comes in at after a catch: the striker's end under the
+ * 2022 laws; under the older laws, the non-striker's end when the batters
+ * had crossed, leaving the not-out batter to face.
+ */
+export const getCatchDismissalEnd = (
+  config: Pick<MatchConfig, "laws">,
+  battersCrossed = false
+): CreaseEnd =>
+  config.laws?.catch_strike === "crossed" && battersCrossed
+    ? "non_striker"
+    : "striker";
+
+/**
+ * Whether a non-striker backing up too far may be run out at the bowler's
+ * end (allowed under the 2022 laws).
+ */
+export const allowsBackingUpRunOut = (config: Pick<MatchConfig, "laws">): boolean =>
+  config.laws?.backing_up_run_out ?? true;
+
+/**
+ * Whether a ledger entry counts as one of the balls of the over.
+ */
+export const countsAsBall = (event: LedgerEventFields): boolean =>
+  isDeliveryEvent(event) && isLegalDelivery(event.extras);
+
+/**
+ * Runs the batters actually ran (or scored as boundaries) on a ball, which
+ * decides whether they finished at opposite ends. Penalty runs for a wide or
+ * no-ball are excluded; byes, leg-byes and runs run on a wide are included.
+ */
+export const runsCompleted = (
+  ballInput: BallInput,
+  config?: Partial<MatchConfig>
+): number => {
+  const extras = ballInput.extras;
+  switch (extras?.type) {
+    case ExtraType.WIDE:
+      return Math.max(extras.runs - (config?.wide_runs ?? 1), 0);
+    case ExtraType.NO_BALL:
+      return (
+        ballInput.runs_off_bat +
+        Math.max(extras.runs - (config?.no_ball_runs ?? 1), 0)
+      );
+    case ExtraType.BYE:
+    case ExtraType.LEG_BYE:
+      return ballInput.runs_off_bat + extras.runs;
+    default:
+      return ballInput.runs_off_bat;
+  }
+};
+
+/**
+ * Dismissal types that are possible on a wide or no-ball. A non-striker can
+ * only be run out (or retire).
+ */
+const DISMISSALS_OFF_WIDE = [
+  WicketType.STUMPED,
+  WicketType.RUN_OUT,
+  WicketType.HIT_WICKET,
+];
+const DISMISSALS_OFF_NO_BALL = [WicketType.RUN_OUT];
+const NON_STRIKER_DISMISSALS = [
+  WicketType.RUN_OUT,
+  WicketType.RETIRED,
+  WicketType.RETIRED_HURT,
+];
+
+/**
+ * On a free hit the striker can only be out in the ways possible off a
+ * no-ball, even if the free-hit delivery is itself a wide. Retiring is not a
+ * delivery, so it is always possible.
+ */
+const FREE_HIT_DISMISSALS = [
+  WicketType.RUN_OUT,
+  WicketType.RETIRED,
+  WicketType.RETIRED_HURT,
+];
+
+/**
+ * Whether the house rules allow a dismissal type. Retiring is always
+ * allowed; a boundary-out only under a boundary-out rule.
+ */
+const isDismissalInPlay = (type: WicketType, houseRules?: HouseRules): boolean => {
+  if (type === WicketType.BOUNDARY_OUT) return !!houseRules?.boundary_out;
+  return (
+    isRetirement(type) ||
+    !houseRules?.allowed_wickets ||
+    houseRules.allowed_wickets.includes(type)
+  );
+};
+
+/**
+ * Dismissal types that are possible for the given batter on a delivery with
+ * the given extra (used to limit the wicket options offered to the scorer).
+ * A boundary-out is recorded from the runs, so it is never offered.
+ */
+export const allowedDismissals = (
+  extraType: ExtraType | undefined,
+  isStrikerOut: boolean,
+  isFreeHit = false,
+  houseRules?: HouseRules
+): WicketType[] =>
+  Object.values(WicketType).filter(
+    (type) =>
+      type !== WicketType.BOUNDARY_OUT &&
+      isDismissalInPlay(type, houseRules) &&
+      (isStrikerOut || NON_STRIKER_DISMISSALS.includes(type)) &&
+      (!isFreeHit || FREE_HIT_DISMISSALS.includes(type)) &&
+      (extraType !== ExtraType.WIDE || DISMISSALS_OFF_WIDE.includes(type)) &&
+      (extraType !== ExtraType.NO_BALL || DISMISSALS_OFF_NO_BALL.includes(type))
+  );
+
+/**
+ * Validate Dismissal
+ *
+ * Rejects wicket and extras combinations that cannot happen, such as being
+ * bowled off a no-ball, caught on a free hit or a non-striker being stumped,
+ * and dismissals the house rules leave out.
+ */
+export function validateDismissal(
+  ballInput: BallInput,
+  isFreeHit = false,
+  config?: Pick<MatchConfig, "house_rules" | "laws">
+): void {
+  const wicket = ballInput.wicket;
+  if (!wicket) return;
+
+  if (!isDismissalInPlay(wicket.type, config?.house_rules)) {
+    throw new Error("That dismissal is not in play under this match's house rules.");
+  }
+
+  if (wicket.backing_up) {
+    if (wicket.type !== WicketType.RUN_OUT || wicket.is_striker_out) {
+      throw new Error("Only the non-striker can be run out backing up.");
+    }
+    if (ballInput.runs_off_bat > 0 || ballInput.extras) {
+      throw new Error("A non-striker run out backing up happens before the ball, so it carries no runs or extras.");
+    }
+    if (config && !allowsBackingUpRunOut(config)) {
+      throw new Error("Running out a non-striker who is backing up is not allowed under this match's laws.");
+    }
+  }
+
+  if (
+    isRetirement(wicket.type) &&
+    (ballInput.runs_off_bat > 0 || ballInput.extras)
+  ) {
+    throw new Error("Record the delivery first, then the retirement on its own.");
+  }
+  if (isFreeHit && !FREE_HIT_DISMISSALS.includes(wicket.type)) {
+    throw new Error("Free hit: the batter can only be run out.");
+  }
+
+  if (!wicket.is_striker_out && !NON_STRIKER_DISMISSALS.includes(wicket.type)) {
+    throw new Error("The non-striker can only be run out.");
+  }
+  if (
+    ballInput.extras?.type === ExtraType.WIDE &&
+    !DISMISSALS_OFF_WIDE.includes(wicket.type)
+  ) {
+    throw new Error("Only stumped, run out or hit wicket are possible off a wide.");
+  }
+  if (
+    ballInput.extras?.type === ExtraType.NO_BALL &&
+    !DISMISSALS_OFF_NO_BALL.includes(wicket.type)
+  ) {
+    throw new Error("Only a run out is possible off a no-ball.");
+  }
+}
+
+/**
+ * Whether the house rules rule out the wicket on this ball because it is the
+ * last legal ball of an over and no wicket may fall off it.
+ */
+export const isLastBallWicketBarred = (
+  score: Pick<Score, "balls">,
+  config: Pick<MatchConfig, "house_rules" | "balls_per_over">,
+  ballInput: BallInput
+): boolean =>
+  !!config.house_rules?.no_wicket_last_ball &&
+  !!ballInput.wicket?.player_id &&
+  countsAsBall(ballInput) &&
+  score.balls === getBallsPerOver(config) - 1;
+
+/**
+ * Resolve Ends
+ *
+ * Works out who is on strike after a ball. Batters change ends for every odd
+ * run completed; a dismissed batter leaves a vacancy at the end where the
+ * wicket was broken (for the incoming batter), and ends swap at the end of
+ * an over. A last man batting alone keeps strike with the non-striker's
+ * end left empty.
+ */
+export const resolveEnds = (
+  preBallState: MatchLiveState,
+  ballInput: BallInput,
+  completedRuns: number,
+  overCompleted: boolean,
+  battingAlone = false
+): Pick<MatchLiveState, "striker_id" | "non_striker_id"> => {
+  if (battingAlone) {
+    const lastBatter = [preBallState.striker_id, preBallState.non_striker_id].find(
+      (batterId) => batterId && batterId !== ballInput.wicket?.player_id
+    );
+    return { striker_id: lastBatter ?? "", non_striker_id: "" };
+  }
+
+  let strikerEnd = preBallState.striker_id;
+  let nonStrikerEnd = preBallState.non_striker_id;
+
+  if (completedRuns % 2 === 1) {
+    [strikerEnd, nonStrikerEnd] = [nonStrikerEnd, strikerEnd];
+  }
+
+  const wicket = ballInput.wicket;
+  if (wicket?.player_id) {
+    const isStrikerOut = wicket.is_striker_out ?? true;
+    const survivor = isStrikerOut
+      ? preBallState.non_striker_id
+      : preBallState.striker_id;
+    const dismissalEnd =
+      wicket.dismissal_end ??
+      (strikerEnd === wicket.player_id ? "striker" : "non_striker");
+
+    if (dismissalEnd === "striker") {
+      strikerEnd = "";
+      nonStrikerEnd = survivor;
+    } else {
+      strikerEnd = survivor;
+      nonStrikerEnd = "";
+    }
+  }
+
+  if (overCompleted) {
+    [strikerEnd, nonStrikerEnd] = [nonStrikerEnd, strikerEnd];
+  }
+
+  return { striker_id: strikerEnd, non_striker_id: nonStrikerEnd };
+};
+
+const clonePlayerStats = (
+  state: MatchLiveState["player_stats"]
+): PlayerStatsState => ({
+  batters: { ...(state?.batters ?? {}) },
+  bowlers: { ...(state?.bowlers ?? {}) },
+  ...(state?.fielders ? { fielders: { ...state.fielders } } : {}),
+});
+
+/**
+ * Fielding stats of a player (zeroed if they have not been credited yet).
+ */
+export const getFieldingStats = (
+  playerStats: PlayerStatsState | undefined,
+  fielderId: string
+): FieldingStats => ({
+  catches: 0,
+  stumpings: 0,
+  run_outs_direct: 0,
+  run_outs_assisted: 0,
+  ...playerStats?.fielders?.[fielderId],
+});
+
+/**
+ * Credit the fielders involved in a dismissal. A run out with a thrower and
+ * a fielder breaking the wicket counts as assisted for both.
+ */
+const creditFielders = (
+  playerStats: PlayerStatsState,
+  wicket: NonNullable<BallInput["wicket"]>
+) => {
+  const fielderId = wicket.dismissed_by;
+  if (!fielderId) return;
+
+  const fielders = playerStats.fielders ?? {};
+  const credit = (playerId: string, key: keyof FieldingStats) => {
+    const existing = getFieldingStats(playerStats, playerId);
+    fielders[playerId] = { ...existing, [key]: existing[key] + 1 };
+  };
+
+  switch (wicket.type) {
+    case WicketType.CAUGHT:
+      credit(fielderId, "catches");
+      break;
+    case WicketType.STUMPED:
+      credit(fielderId, "stumpings");
+      break;
+    case WicketType.RUN_OUT:
+      if (wicket.assisted_by && wicket.assisted_by !== fielderId) {
+        credit(fielderId, "run_outs_assisted");
+        credit(wicket.assisted_by, "run_outs_assisted");
+      } else {
+        credit(fielderId, "run_outs_direct");
+      }
+      break;
+  }
+  playerStats.fielders = fielders;
+};
+
+/**
+ * Stats of a batter, with counters missing from older ledger snapshots zeroed.
+ */
+export const getBatterStats = (
+  playerStats: PlayerStatsState | undefined,
+  batterId: string
+): BatterStats => {
+  const stats: Partial<BatterStats> = playerStats?.batters[batterId] ?? {};
+  return {
+    ...stats,
+    runs: stats.runs ?? 0,
+    balls: stats.balls ?? 0,
+    fours: stats.fours ?? 0,
+    sixes: stats.sixes ?? 0,
+    dots: stats.dots ?? 0,
+  };
+};
+
+/**
+ * Stats of a bowler, with counters missing from older ledger snapshots zeroed.
+ */
+export const getBowlerStats = (
+  playerStats: PlayerStatsState | undefined,
+  bowlerId: string
+): BowlerStats => {
+  const stats: Partial<BowlerStats> = playerStats?.bowlers[bowlerId] ?? {};
+  return {
+    ...stats,
+    runs: stats.runs ?? 0,
+    balls: stats.balls ?? 0,
+    wickets: stats.wickets ?? 0,
+    maidens: stats.maidens ?? 0,
+    dots: stats.dots ?? 0,
+    wides: stats.wides ?? 0,
+    no_balls: stats.no_balls ?? 0,
+    fours: stats.fours ?? 0,
+    sixes: stats.sixes ?? 0,
+  };
+};
+
+/**
+ * Runs conceded per over of the match's length.
+ */
+export const getEconomy = (
+  stats: Pick<BowlerStats, "runs" | "balls">,
+  ballsPerOver: number = DEFAULT_BALLS_PER_OVER
+): number => getRunRate(stats.runs, stats.balls, ballsPerOver);
+
+/**
+ * Overs each bowler may bowl: the configured quota, or a fifth of the
+ * innings rounded up (4 in a T20, 10 in an ODI). Null when there is no
+ * quota, as in a match where each side bats twice unless one is configured.
+ */
+export const getMaxOversPerBowler = (
+  config: Pick<MatchConfig, "total_overs" | "max_overs_per_bowler" | "innings_per_side">
+): number | null => {
+  if (config.max_overs_per_bowler != null) return config.max_overs_per_bowler;
+  return getInningsPerSide(config) > 1 ? null : Math.ceil(config.total_overs / 5);
+};
+
+/**
+ * Legal balls a bowler has left in their quota this innings, or null when
+ * there is no quota.
+ */
+export const getBowlerBallsRemaining = (
+  config: Pick<
+    MatchConfig,
+    "total_overs" | "max_overs_per_bowler" | "balls_per_over" | "innings_per_side"
+  >,
+  playerStats: PlayerStatsState | undefined,
+  bowlerId: string
+): number | null => {
+  const maxOvers = getMaxOversPerBowler(config);
+  if (maxOvers == null) return null;
+  return Math.max(
+    0,
+    maxOvers * getBallsPerOver(config) - getBowlerStats(playerStats, bowlerId).balls
+  );
+};
+
+/**
+ * Number of wickets that ends the innings for the given batting team
+ * (one batter is always left not out, unless the last man stands; two
+ * wickets in a super over). Returns 0 when the team is unknown and in
+ * pairs cricket, where a side is never all out.
+ */
+export const getMaxWickets = (
+  match: EngineMatch,
+  battingTeamId?: string | null,
+  superOver = false
+): number => {
+  const team =
+    battingTeamId === "a" || battingTeamId === "b"
+      ? match.teams[battingTeamId]
+      : undefined;
+  if (match.config.pairs) return 0;
+  const players = team?.players.length ?? 0;
+  const maxWickets = match.config.last_man_stands
+    ? players
+    : Math.max(players - 1, 0);
+  return superOver ? Math.min(maxWickets, SUPER_OVER_WICKETS) : maxWickets;
+};
+
+/**
+ * Whether the batting side is down to its last batter after the given
+ * number of wickets, who bats on alone when the last man stands.
+ */
+export const isBattingAlone = (
+  match: EngineMatch,
+  state: Pick<MatchLiveState, "batting_team_id" | "super_over">,
+  wickets: number
+): boolean => {
+  if (!match.config.last_man_stands || state.super_over) return false;
+  const maxWickets = getMaxWickets(match, state.batting_team_id);
+  return maxWickets > 0 && wickets >= maxWickets - 1;
+};
+
+/**
+ * Ledger id for a ball bowled from the given state: "{over}_{ball}" for legal
+ * deliveries, with a unique "_x…" suffix for wides and no-balls (which share
+ * their over/ball position with the next legal delivery).
+ */
+export const createBallId = (
+  preBallState: MatchLiveState,
+  legalDelivery: boolean,
+  previousId?: string
+): string => {
+  const position = `${preBallState.score.overs}_${preBallState.score.balls}`;
+  if (legalDelivery) return position;
+  const existingSuffix = previousId?.match(/_x\d+$/)?.[0];
+  return `${position}${existingSuffix ?? `_x${Date.now()}`}`;
+};
+
+/**
+ * The event fields a BallInput is stored as in the ledger.
+ */
+export const toLedgerFields = (
+  ballInput: BallInput
+): Pick<BallEvent, "runs_off_bat" | "boundary" | "extras" | "wicket" | "penalty"> => ({
+  runs_off_bat: ballInput.runs_off_bat,
+  boundary: !!ballInput.boundary,
+  extras: ballInput.extras
+    ? {
+        type: ballInput.extras.type,
+        runs: ballInput.extras.runs,
+      }
+    : null,
+  wicket: ballInput.wicket
+    ? {
+        is_out: true,
+        type: ballInput.wicket.type,
+        player_id: ballInput.wicket.player_id,
+        ...(ballInput.wicket.dismissed_by
+          ? { dismissed_by: ballInput.wicket.dismissed_by }
+          : {}),
+        ...(ballInput.wicket.assisted_by
+          ? { assisted_by: ballInput.wicket.assisted_by }
+          : {}),
+        is_striker_out: ballInput.wicket.is_striker_out,
+        ...(ballInput.wicket.dismissal_end
+          ? { dismissal_end: ballInput.wicket.dismissal_end }
+          : {}),
+        ...(ballInput.wicket.batters_crossed ? { batters_crossed: true } : {}),
+        ...(ballInput.wicket.backing_up ? { backing_up: true } : {}),
+      }
+    : null,
+  ...(ballInput.penalty
+    ? {
+        penalty: {
+          team_id: ballInput.penalty.team_id,
+          reason: ballInput.penalty.reason,
+        },
+      }
+    : {}),
+});
+
+/**
+ * Convert a stored ledger entry back into the input that produced it.
+ * Balls recorded before the boundary flag took every 4 or 6 off the bat as
+ * a boundary, so they are read back that way.
+ */
+export const ballEventToInput = (ball: BallEvent): BallInput => ({
+  runs_off_bat: ball.runs_off_bat,
+  ...((ball.boundary ?? (ball.runs_off_bat === 4 || ball.runs_off_bat === 6))
+    ? { boundary: true }
+    : {}),
+  ...(ball.extras?.type
+    ? { extras: { type: ball.extras.type, runs: ball.extras.runs } }
+    : {}),
+  ...(ball.wicket?.is_out && ball.wicket.type && ball.wicket.player_id
+    ? {
+        wicket: {
+          type: ball.wicket.type,
+          player_id: ball.wicket.player_id,
+          ...(ball.wicket.dismissed_by
+            ? { dismissed_by: ball.wicket.dismissed_by }
+            : {}),
+          ...(ball.wicket.assisted_by
+            ? { assisted_by: ball.wicket.assisted_by }
+            : {}),
+          is_striker_out:
+            ball.wicket.is_striker_out ??
+            ball.wicket.player_id === ball.pre_ball_state.striker_id,
+          ...(ball.wicket.dismissal_end
+            ? { dismissal_end: ball.wicket.dismissal_end }
+            : {}),
+          ...(ball.wicket.batters_crossed ? { batters_crossed: true } : {}),
+          ...(ball.wicket.backing_up ? { backing_up: true } : {}),
+        },
+      }
+    : {}),
+  ...(ball.penalty ? { penalty: { ...ball.penalty } } : {}),
+});
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate Ball
+ *
+ * Checks whether a ball may be recorded against the current live state.
+ * Throws an Error describing the first rule that is violated.
+ */
+export function validateBall(
+  state: MatchLiveState,
+  match: EngineMatch,
+  ballInput: BallInput
+): void {
+  if (isPenaltyEvent(ballInput.extras)) {
+    throw new Error("Penalty runs are not a delivery. Award them separately.");
+  }
+
+  validateDismissal(ballInput, !!state.is_free_hit, match.config);
+
+  if (state.declared) {
+    throw new Error("Innings declared. Please start the next innings.");
+  }
+
+  const score = state.score;
+  const dismissedBatters = new Set(state.dismissed_batter_ids ?? []);
+  const maxWicketsBeforeAllOut = getMaxWickets(
+    match,
+    state.batting_team_id,
+    !!state.super_over
+  );
+
+  if (maxWicketsBeforeAllOut > 0 && score.wickets >= maxWicketsBeforeAllOut) {
+    throw new Error(
+      "Innings complete. All available batters have been dismissed."
+    );
+  }
+
+  const ensureBatterEligible = (batterId?: string | null, label = "Batter") => {
+    if (batterId && dismissedBatters.has(batterId)) {
+      throw new Error(`${label} has already been dismissed. Please select a new batter.`);
+    }
+  };
+
+  ensureBatterEligible(state.striker_id, "Striker");
+  ensureBatterEligible(state.non_striker_id, "Non-striker");
+
+  // Prevent recording if innings is complete (reached total overs limit)
+  const totalOvers = match.config ? getInningsOvers(state, match.config) : 0;
+  if (score.overs >= totalOvers) {
+    throw new Error(`Innings complete! ${totalOvers} overs have been bowled. Please switch to the next innings.`);
+  }
+
+  if (state.innings_closed) {
+    throw new Error("Innings closed. Please start the next innings.");
+  }
+
+  // A retirement happens between balls, so the bowler checks do not apply
+  if (!isDeliveryEvent(ballInput)) {
+    if (ballInput.wicket?.player_id && dismissedBatters.has(ballInput.wicket.player_id)) {
+      throw new Error("This batter has already been dismissed.");
+    }
+    return;
+  }
+
+  // Prevent recording if over is complete AND we haven't selected a new bowler.
+  // This prevents the race condition where a ball can be recorded between
+  // over completion detection and UI state update.
+  if (score.balls === 0 && score.overs > 0 &&
+      state.bowler_id && state.last_bowler_id &&
+      state.bowler_id === state.last_bowler_id) {
+    throw new Error("Over is complete. Please select a new bowler before recording the next ball.");
+  }
+
+  // Prevent same bowler from bowling consecutive overs
+  if (state.bowler_id && state.last_bowler_id &&
+      state.bowler_id === state.last_bowler_id) {
+    throw new Error("A bowler cannot bowl consecutive overs. Please select a different bowler.");
+  }
+
+  if (
+    state.bowler_id &&
+    getBowlerBallsRemaining(match.config, state.player_stats, state.bowler_id) === 0
+  ) {
+    throw new Error(
+      `This bowler has bowled their ${getMaxOversPerBowler(match.config)}-over quota. Please select a different bowler.`
+    );
+  }
+
+  if (ballInput.wicket?.player_id && dismissedBatters.has(ballInput.wicket.player_id)) {
+    throw new Error("This batter has already been dismissed.");
+  }
+
+  if (isLastBallWicketBarred(score, match.config, ballInput)) {
+    throw new Error("House rules: the last ball of an over cannot take a wicket.");
+  }
+}
+
+// ============================================================================
+// RESULT DETECTION
+// ============================================================================
+
+/**
+ * Result of a super over whose chase has finished. More runs wins the super
+ * over; level scores leave the match tied, ready for another super over.
+ * The tied match totals and the scores of every super over played are kept
+ * on the result.
+ */
+function evaluateSuperOver(
+  state: MatchLiveState,
+  match: EngineMatch,
+  firstInningsRuns: number
+): MatchResult {
+  const chasingTeamId = (state.second_batting_team_id ??
+    state.batting_team_id) as TeamId;
+  const defendingTeamId = (state.first_batting_team_id ??
+    state.bowling_team_id) as TeamId;
+  const tiedResult = match.super_over?.tied_result;
+
+  const played: SuperOver = {
+    number: state.super_over ?? 1,
+    first_innings: {
+      team_id: defendingTeamId,
+      wickets: match.super_over?.first_innings?.wickets ?? 0,
+      runs: firstInningsRuns,
+    },
+    second_innings: {
+      team_id: chasingTeamId,
+      runs: state.score.runs,
+      wickets: state.score.wickets,
+    },
+  };
+  const resultFields = {
+    first_innings_runs: tiedResult?.first_innings_runs ?? 0,
+    second_innings_runs: tiedResult?.second_innings_runs ?? 0,
+    ...(tiedResult?.revised_target != null
+      ? { revised_target: tiedResult.revised_target }
+      : {}),
+    super_overs: [...(match.super_over?.completed ?? []), played],
+  };
+
+  if (played.second_innings.runs === played.first_innings.runs) {
+    return {
+      type: "tie",
+      summary: `Super over tied! Both teams scored ${played.second_innings.runs} runs`,
+      ...resultFields,
+    };
+  }
+
+  const chaseWon = played.second_innings.runs > played.first_innings.runs;
+  const winnerTeamId = chaseWon ? chasingTeamId : defendingTeamId;
+  const loserTeamId = chaseWon ? defendingTeamId : chasingTeamId;
+  return {
+    type: "win",
+    winner_team_id: winnerTeamId,
+    loser_team_id: loserTeamId,
+    summary: `${match.teams[winnerTeamId]?.name ?? "Winning team"} won the super over`,
+    ...resultFields,
+  };
+}
+
+/**
+ * Result of a match where each side bats twice, once its third or fourth
+ * innings is over. A side still behind when its second innings closes loses
+ * by an innings; otherwise the last innings is a chase, and a chase that is
+ * neither won nor bowled out is a draw. Run totals on the result are each
+ * side's runs across both innings.
+ */
+function evaluateTwoInningsResult(
+  state: MatchLiveState,
+  match: EngineMatch
+): MatchResult | null {
+  const innings = state.current_innings ?? 1;
+  if (innings < 3) return null;
+
+  const summaries = match.innings_summaries ?? [];
+  const battingTeamId = state.batting_team_id as TeamId;
+  const bowlingTeamId = state.bowling_team_id as TeamId;
+  const teamName = (teamId: TeamId) => match.teams[teamId]?.name ?? "Team";
+  const maxWickets = Math.max(getMaxWickets(match, battingTeamId), 1);
+  const allOut = state.score.wickets >= maxWickets;
+  const oversComplete =
+    state.score.overs >= getInningsOvers(state, match.config) &&
+    state.score.balls === 0;
+  const inningsOver = allOut || oversComplete || !!state.declared;
+  const lead = getLead(summaries, state);
+
+  const firstBattingTeamId = summaries[0]?.batting_team_id ?? bowlingTeamId;
+  const teamRuns = (teamId: TeamId) =>
+    getSideRuns(summaries, teamId) +
+    (teamId === battingTeamId
+      ? state.score.runs
+      : state.fielding_penalty_runs ?? 0);
+  const totals = {
+    first_innings_runs: teamRuns(firstBattingTeamId),
+    second_innings_runs: teamRuns(firstBattingTeamId === "a" ? "b" : "a"),
+  };
+
+  if (innings === 3) {
+    if (!inningsOver || lead >= 0) return null;
+    const margin = `an innings and ${-lead} run${lead === -1 ? "" : "s"}`;
+    return {
+      type: "win",
+      winner_team_id: bowlingTeamId,
+      loser_team_id: battingTeamId,
+      margin,
+      summary: `${teamName(bowlingTeamId)} won by ${margin}`,
+      ...totals,
+    };
+  }
+
+  if (lead > 0) {
+    const wicketsRemaining = Math.max(0, maxWickets - state.score.wickets);
+    const margin = `${wicketsRemaining} wicket${wicketsRemaining === 1 ? "" : "s"}`;
+    return {
+      type: "win",
+      winner_team_id: battingTeamId,
+      loser_team_id: bowlingTeamId,
+      margin,
+      summary: `${teamName(battingTeamId)} won by ${margin}`,
+      ...totals,
+    };
+  }
+
+  if (!inningsOver) return null;
+
+  if (allOut) {
+    if (lead === 0) {
+      return {
+        type: "tie",
+        summary: `Match tied! Both teams scored ${totals.first_innings_runs} runs`,
+        ...totals,
+      };
+    }
+    const margin = `${-lead} run${lead === -1 ? "" : "s"}`;
+    return {
+      type: "win",
+      winner_team_id: bowlingTeamId,
+      loser_team_id: battingTeamId,
+      margin,
+      summary: `${teamName(bowlingTeamId)} won by ${margin}`,
+      ...totals,
+    };
+  }
+
+  return { type: "draw", summary: "Match drawn", ...totals };
+}
+
+/**
+ * Evaluate Result
+ *
+ * Determines whether the chase in the second innings has finished
+ * (target reached, all out or overs exhausted) and builds the MatchResult,
+ * including the chase of a super over and the later innings of a match
+ * where each side bats twice. Returns null while the match is still in
+ * progress.
+ */
+export function evaluateResult(
+  state: MatchLiveState,
+  match: EngineMatch
+): MatchResult | null {
+  if (!state.super_over && getInningsPerSide(match.config) > 1) {
+    return evaluateTwoInningsResult(state, match);
+  }
+
+  const isSecondInnings = state.current_innings === 2;
+  const firstInningsRuns = getFirstInningsRuns(state);
+  const target = getTarget(state, match);
+  if (!isSecondInnings || firstInningsRuns == null || target == null) {
+    return null;
+  }
+
+  const revised = match.revised_target != null;
+  // A revised target stands in for the first-innings runs in the margin
+  const runsToTie = target - 1;
+  const revisedFields = revised ? { revised_target: target } : {};
+  const revisedNote = revised ? ` (revised target ${target})` : "";
+  const chasingRuns = state.score.runs;
+  const wicketsLost = state.score.wickets;
+  const chasingTeamId =
+    (state.second_batting_team_id ??
+      state.batting_team_id) as TeamId | undefined;
+  const defendingTeamId =
+    (state.first_batting_team_id ??
+      state.bowling_team_id) as TeamId | undefined;
+  const maxChasingWickets = Math.max(
+    getMaxWickets(match, chasingTeamId, !!state.super_over),
+    1
+  );
+  const wicketsRemaining = Math.max(0, maxChasingWickets - wicketsLost);
+  const ballsPerOver = getBallsPerOver(match.config);
+  const inningsOvers = getInningsOvers(state, match.config);
+  const totalBalls = inningsOvers * ballsPerOver;
+  const ballsBowled = getLegalBalls(state.score, ballsPerOver);
+  const ballsRemaining = Math.max(0, totalBalls - ballsBowled);
+
+  const chasingTeamName = chasingTeamId
+    ? match.teams[chasingTeamId].name
+    : "Chasing team";
+  const defendingTeamName = defendingTeamId
+    ? match.teams[defendingTeamId].name
+    : "Defending team";
+
+  const oversComplete =
+    state.score.overs >= inningsOvers &&
+    state.score.balls === 0;
+  const pairs = !!match.config.pairs;
+  const allOut = !pairs && wicketsRemaining === 0;
+
+  if (state.super_over) {
+    return chasingRuns >= target || allOut || oversComplete
+      ? evaluateSuperOver(state, match, firstInningsRuns)
+      : null;
+  }
+
+  // In pairs cricket a dismissal can take the chasing side back below the
+  // target, so the chase runs its full overs and is decided on runs
+  if (pairs) {
+    if (!oversComplete) return null;
+    if (chasingRuns >= target) {
+      const margin = chasingRuns - runsToTie;
+      return {
+        type: "win",
+        winner_team_id: chasingTeamId,
+        loser_team_id: defendingTeamId,
+        margin: `${margin} run${margin === 1 ? "" : "s"}`,
+        summary: `${chasingTeamName} won by ${margin} run${margin === 1 ? "" : "s"}${revisedNote}`,
+        first_innings_runs: firstInningsRuns,
+        second_innings_runs: chasingRuns,
+        ...revisedFields,
+      };
+    }
+  } else if (chasingRuns >= target) {
+    const margin =
+      wicketsRemaining > 0
+        ? `${wicketsRemaining} wicket${wicketsRemaining === 1 ? "" : "s"}`
+        : `${ballsRemaining} ball${ballsRemaining === 1 ? "" : "s"}`;
+    return {
+      type: "win",
+      winner_team_id: chasingTeamId,
+      loser_team_id: defendingTeamId,
+      margin,
+      summary: `${chasingTeamName} won by ${margin}${revisedNote}`,
+      first_innings_runs: firstInningsRuns,
+      second_innings_runs: chasingRuns,
+      ...revisedFields,
+    };
+  }
+
+  if (allOut || oversComplete) {
+    if (chasingRuns === runsToTie) {
+      return {
+        type: "tie",
+        summary: revised
+          ? `Match tied! ${chasingTeamName} finished on ${chasingRuns}, one short of the revised target of ${target}`
+          : `Match tied! Both teams scored ${chasingRuns} runs`,
+        first_innings_runs: firstInningsRuns,
+        second_innings_runs: chasingRuns,
+        ...revisedFields,
+      };
+    }
+
+    const margin = runsToTie - chasingRuns;
+    return {
+      type: "win",
+      winner_team_id: defendingTeamId,
+      loser_team_id: chasingTeamId,
+      margin: `${margin} run${margin === 1 ? "" : "s"}`,
+      summary: `${defendingTeamName} won by ${margin} run${margin === 1 ? "" : "s"}${revisedNote}`,
+      first_innings_runs: firstInningsRuns,
+      second_innings_runs: chasingRuns,
+      ...revisedFields,
+    };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// INNINGS
+// ============================================================================
+
+/**
+ * Why the innings in play is over, or null while it can go on: declared,
+ * the chase won, every available batter out, or its overs bowled. A pairs
+ * chase is never over before its overs, since a dismissal can take the side
+ * back below the target.
+ */
+export function getInningsCloseReason(
+  state: MatchLiveState,
+  match: EngineMatch
+): InningsCloseReason | null {
+  if (state.declared) return "declared";
+
+  const target = getTarget(state, match);
+  if (target != null && !match.config.pairs && state.score.runs >= target) {
+    return "target_reached";
+  }
+
+  const maxWickets = getMaxWickets(match, state.batting_team_id, !!state.super_over);
+  if (maxWickets > 0 && state.score.wickets >= maxWickets) return "all_out";
+
+  if (state.score.overs >= getInningsOvers(state, match.config)) {
+    return "overs_complete";
+  }
+  return null;
+}
+
+// Marks the innings closed the moment it ends, or reopens it (e.g. once
+// overs are restored by a ledger edit)
+const markInningsClosure = (state: MatchLiveState, match: EngineMatch) => {
+  const reason = getInningsCloseReason(state, match);
+  if (reason) {
+    state.innings_closed = reason;
+  } else {
+    delete state.innings_closed;
+  }
+};
+
+/**
+ * The state with innings_closed brought up to date: set to why the innings
+ * is over, or cleared while it can go on.
+ */
+export const withInningsClosure = (
+  state: MatchLiveState,
+  match: EngineMatch
+): MatchLiveState => {
+  const next = deepCloneState(state);
+  markInningsClosure(next, match);
+  return next;
+};
+
+/**
+ * Build Innings Record
+ *
+ * The innings/{id} document for an innings, from its live state.
+ *
+ * @param state - Live state of the innings
+ * @param match - Match config, teams and any revised target
+ * @param inningsId - Ledger id of the innings
+ * @param closeReason - Why it closed (defaults to the state's innings_closed)
+ */
+export function buildInningsRecord(
+  state: MatchLiveState,
+  match: EngineMatch,
+  inningsId: string,
+  closeReason: InningsCloseReason | undefined = state.innings_closed
+): Innings {
+  const target = getTarget(state, match);
+  return {
+    id: inningsId,
+    number: state.current_innings ?? 1,
+    ...(state.super_over ? { super_over: state.super_over } : {}),
+    batting_team_id: state.batting_team_id as TeamId,
+    bowling_team_id: state.bowling_team_id as TeamId,
+    status: closeReason ? "completed" : "in_progress",
+    score: { ...state.score },
+    extras: getExtrasBreakdown(state),
+    ...(target != null ? { target } : {}),
+    ...(state.follow_on ? { follow_on: true } : {}),
+    ...(closeReason ? { close_reason: closeReason } : {}),
+  };
+}
+
+// ============================================================================
+// APPLY BALL
+// ============================================================================
+
+/**
+ * Apply Ball
+ *
+ * Applies a single delivery to the live state: score, batter and bowler
+ * figures, dismissals, over completion, strike rotation and free hit.
+ * Does not validate the ball; call validateBall first for live scoring.
+ *
+ * @param state - Live state before the ball (not mutated)
+ * @param match - Match config and teams
+ * @param ballInput - What happened on the ball
+ * @param options - Innings id and optional ledger id for the ball
+ * @returns The new state, the ledger entry and the match result (if any)
+ */
+export function applyBall(
+  state: MatchLiveState,
+  match: EngineMatch,
+  ballInput: BallInput,
+  options: ApplyBallOptions
+): ApplyBallResult {
+  if (isPenaltyEvent(ballInput.extras)) {
+    return applyPenalty(state, match, ballInput, options);
+  }
+  if (!isDeliveryEvent(ballInput)) {
+    return applyDismissalBetweenBalls(state, match, ballInput, options);
+  }
+
+  const preBallState = deepCloneState(state);
+  const liveState = deepCloneState(state);
+  const score = { ...liveState.score };
+  const playerStats = clonePlayerStats(liveState.player_stats);
+  const dismissedBatters = new Set(liveState.dismissed_batter_ids ?? []);
+  liveState.dismissed_batter_ids = Array.from(dismissedBatters);
+
+  const totalRuns = calculateRuns(ballInput);
+  const legalDelivery = isLegalDelivery(ballInput.extras);
+  const ballsPerOver = getBallsPerOver(match.config);
+  const pairs = match.config.pairs;
+  // Pairs cricket: the dismissed batter carries on and the side loses runs
+  const dismissalRuns = getDismissalDeduction(match.config, ballInput);
+
+  score.runs += totalRuns - dismissalRuns;
+
+  if (ballInput.wicket?.player_id) {
+    score.wickets += 1;
+    if (!pairs) dismissedBatters.add(ballInput.wicket.player_id);
+  }
+
+  let overCompleted = false;
+  let endsChanged = false;
+  if (legalDelivery) {
+    score.balls += 1;
+    if (score.balls >= ballsPerOver) {
+      score.overs += 1;
+      score.balls = 0;
+      overCompleted = true;
+      endsChanged = endsChangeAfterOver(match.config, score.overs);
+      if (endsChanged) {
+        // Track the bowler who just completed the over
+        // This prevents them from bowling the next over
+        liveState.last_bowler_id = liveState.bowler_id;
+      } else {
+        // Same end: the bowler may carry on or be replaced by anyone
+        delete liveState.last_bowler_id;
+      }
+    }
+  }
+
+  const strikerId = preBallState.striker_id;
+  const bowlerId = preBallState.bowler_id;
+  const boundaryHit = getBoundaryHit(ballInput);
+
+  const incrementStrikerBall =
+    ballInput.extras?.type !== ExtraType.WIDE &&
+    ballInput.extras?.type !== ExtraType.NO_BALL;
+
+  if (strikerId) {
+    const existingBatter = getBatterStats(playerStats, strikerId);
+    playerStats.batters[strikerId] = {
+      ...existingBatter,
+      runs: existingBatter.runs + ballInput.runs_off_bat,
+      balls: existingBatter.balls + (incrementStrikerBall ? 1 : 0),
+      fours: existingBatter.fours + (boundaryHit === "four" ? 1 : 0),
+      sixes: existingBatter.sixes + (boundaryHit === "six" ? 1 : 0),
+      dots:
+        existingBatter.dots +
+        (incrementStrikerBall && ballInput.runs_off_bat === 0 ? 1 : 0),
+    };
+  }
+
+  const wicketInput = ballInput.wicket;
+  if (wicketInput?.player_id) {
+    if (!pairs) {
+      const dismissedBatter = getBatterStats(playerStats, wicketInput.player_id);
+      playerStats.batters[wicketInput.player_id] = {
+        ...dismissedBatter,
+        dismissal: {
+          type: wicketInput.type,
+          ...(bowlerId && wicketCountsForBowler(wicketInput.type)
+            ? { bowler_id: bowlerId }
+            : {}),
+          ...(wicketInput.dismissed_by
+            ? { fielder_id: wicketInput.dismissed_by }
+            : {}),
+          ...(wicketInput.type === WicketType.RUN_OUT && wicketInput.assisted_by
+            ? { assisting_fielder_id: wicketInput.assisted_by }
+            : {}),
+        },
+      };
+    }
+    creditFielders(playerStats, wicketInput);
+  }
+
+  if (bowlerId) {
+    const existingBowler = getBowlerStats(playerStats, bowlerId);
+    const creditedRuns =
+      ballInput.extras?.type === ExtraType.BYE ||
+      ballInput.extras?.type === ExtraType.LEG_BYE
+        ? 0
+        : totalRuns;
+
+    // This bowler's share of the over being bowled, started afresh with each
+    // new over or change of bowler
+    const tally = preBallState.over_tally;
+    const sameSpell =
+      tally?.over === preBallState.score.overs && tally.bowler_id === bowlerId;
+    const overTally: OverTally = {
+      over: preBallState.score.overs,
+      bowler_id: bowlerId,
+      runs: (sameSpell ? tally.runs : 0) + creditedRuns,
+      balls: (sameSpell ? tally.balls : 0) + (legalDelivery ? 1 : 0),
+    };
+    // A maiden needs the whole over bowled by this bowler without a run conceded
+    const isMaiden =
+      overCompleted && overTally.balls === ballsPerOver && overTally.runs === 0;
+    liveState.over_tally = overTally;
+
+    playerStats.bowlers[bowlerId] = {
+      runs: existingBowler.runs + creditedRuns,
+      balls: existingBowler.balls + (legalDelivery ? 1 : 0),
+      wickets:
+        existingBowler.wickets +
+        (ballInput.wicket?.player_id &&
+        wicketCountsForBowler(ballInput.wicket.type ?? null)
+          ? 1
+          : 0),
+      maidens: existingBowler.maidens + (isMaiden ? 1 : 0),
+      dots: existingBowler.dots + (legalDelivery && creditedRuns === 0 ? 1 : 0),
+      wides: existingBowler.wides + (ballInput.extras?.type === ExtraType.WIDE ? 1 : 0),
+      no_balls:
+        existingBowler.no_balls +
+        (ballInput.extras?.type === ExtraType.NO_BALL ? 1 : 0),
+      fours: existingBowler.fours + (boundaryHit === "four" ? 1 : 0),
+      sixes: existingBowler.sixes + (boundaryHit === "six" ? 1 : 0),
+    };
+  }
+
+  liveState.score = score;
+  liveState.player_stats = playerStats;
+  if (ballInput.extras?.type) {
+    liveState.extras = addExtras(liveState, ballInput.extras);
+  }
+
+  if (ballInput.wicket?.player_id) {
+    liveState.dismissed_batter_ids = Array.from(dismissedBatters);
+    if (!pairs) {
+      liveState.fall_of_wickets = addFallOfWicket(
+        liveState,
+        ballInput.wicket.player_id,
+        ballsPerOver
+      );
+    }
+  }
+
+  // After a catch the new batter's end follows the laws in use
+  const caught = ballInput.wicket?.type === WicketType.CAUGHT ? ballInput.wicket : null;
+  const endsInput: BallInput = pairs
+    ? { ...ballInput, wicket: undefined }
+    : caught
+    ? {
+        ...ballInput,
+        wicket: {
+          ...caught,
+          dismissal_end: getCatchDismissalEnd(match.config, caught.batters_crossed),
+        },
+      }
+    : ballInput;
+
+  Object.assign(
+    liveState,
+    resolveEnds(
+      preBallState,
+      endsInput,
+      runsCompleted(ballInput, match.config),
+      endsChanged,
+      isBattingAlone(match, liveState, score.wickets)
+    )
+  );
+
+  if (pairs) {
+    liveState.pair_scores = recordPairBall(
+      preBallState.pair_scores,
+      getPairNumber(
+        match.config,
+        getLegalBalls(preBallState.score, ballsPerOver),
+        ballsPerOver
+      ),
+      [preBallState.striker_id, preBallState.non_striker_id],
+      totalRuns - dismissalRuns,
+      !!ballInput.wicket?.player_id,
+      legalDelivery
+    );
+
+    // Once a pair's overs are done the next pair comes straight in
+    const legalBalls = getLegalBalls(score, ballsPerOver);
+    const battingTeamId = liveState.batting_team_id;
+    if (
+      legalDelivery &&
+      isPairComplete(match.config, legalBalls, ballsPerOver) &&
+      score.overs < getInningsOvers(liveState, match.config) &&
+      (battingTeamId === "a" || battingTeamId === "b")
+    ) {
+      Object.assign(
+        liveState,
+        getNextPair(match.teams[battingTeamId].players, liveState)
+      );
+    }
+  }
+
+  // A no-ball earns a free hit; a wide on a free hit carries it over to the
+  // next delivery (as does a further no-ball).
+  liveState.is_free_hit =
+    ballInput.extras?.type === ExtraType.NO_BALL ||
+    (!!preBallState.is_free_hit && ballInput.extras?.type === ExtraType.WIDE);
+
+  markInningsClosure(liveState, match);
+
+  const ballIdentifier =
+    options.ballId ?? createBallId(preBallState, legalDelivery);
+  liveState.last_ball_id = ballIdentifier;
+
+  const { extras, wicket } = toLedgerFields(ballInput);
+
+  const overEntry: OverBall = {
+    id: ballIdentifier,
+    runs_off_bat: ballInput.runs_off_bat,
+    extras,
+    wicket,
+  };
+
+  liveState.this_over = [
+    ...((liveState.this_over ?? []) as OverBall[]),
+    overEntry,
+  ].slice(-ballsPerOver);
+
+  const ballEvent: BallEvent = {
+    id: ballIdentifier,
+    match_id: match.id,
+    innings_id: options.inningsId,
+    timestamp: null,
+    runs_off_bat: ballInput.runs_off_bat,
+    boundary: !!ballInput.boundary,
+    extras,
+    wicket,
+    pre_ball_state: preBallState,
+    post_ball_state: deepCloneState(liveState),
+  };
+
+  return {
+    state: liveState,
+    ballEvent,
+    result: evaluateResult(liveState, match),
+  };
+}
+
+/**
+ * Apply Penalty
+ *
+ * Awards penalty runs without a delivery: no ball is counted, nobody's
+ * figures change and the free hit (if any) still stands. Runs awarded to the
+ * batting side go on the current score. Runs awarded to the fielding side
+ * go on its own innings: the completed first innings when it is defending,
+ * otherwise they are carried into the innings it bats next.
+ */
+function applyPenalty(
+  state: MatchLiveState,
+  match: EngineMatch,
+  ballInput: BallInput,
+  options: ApplyBallOptions
+): ApplyBallResult {
+  const award = ballInput.penalty;
+  if (!award) {
+    throw new Error("Penalty runs must be awarded to a team.");
+  }
+
+  const preBallState = deepCloneState(state);
+  const liveState = deepCloneState(state);
+  const runs = ballInput.extras?.runs ?? 0;
+
+  if (award.team_id === liveState.batting_team_id) {
+    liveState.score = { ...liveState.score, runs: liveState.score.runs + runs };
+    liveState.extras = addExtras(liveState, { type: ExtraType.PENALTY, runs });
+  } else {
+    liveState.fielding_penalty_runs =
+      (liveState.fielding_penalty_runs ?? 0) + runs;
+  }
+
+  markInningsClosure(liveState, match);
+
+  const ballIdentifier = options.ballId ?? createBallId(preBallState, false);
+  liveState.last_ball_id = ballIdentifier;
+
+  const ballEvent: BallEvent = {
+    id: ballIdentifier,
+    match_id: match.id,
+    innings_id: options.inningsId,
+    timestamp: null,
+    ...toLedgerFields(ballInput),
+    pre_ball_state: preBallState,
+    post_ball_state: deepCloneState(liveState),
+  };
+
+  return {
+    state: liveState,
+    ballEvent,
+    result: evaluateResult(liveState, match),
+  };
+}
+
+/**
+ * Apply Dismissal Between Balls
+ *
+ * Records a batter retiring, or the non-striker being run out backing up,
+ * between deliveries. Retired out and the run out count as wickets; retired
+ * hurt does not, and the batter is kept in retired_hurt_ids so they can
+ * resume later in the innings. The batter's end is left empty for the next
+ * batter (in pairs cricket a run out costs runs instead) and no ball is
+ * counted.
+ */
+function applyDismissalBetweenBalls(
+  state: MatchLiveState,
+  match: EngineMatch,
+  ballInput: BallInput,
+  options: ApplyBallOptions
+): ApplyBallResult {
+  const wicketInput = ballInput.wicket;
+  if (!wicketInput?.player_id) {
+    throw new Error(
+      wicketInput?.backing_up
+        ? "Select the non-striker who was run out."
+        : "Select the batter who is retiring."
+    );
+  }
+
+  const preBallState = deepCloneState(state);
+  const liveState = deepCloneState(state);
+  const playerStats = clonePlayerStats(liveState.player_stats);
+  const pairs = wicketInput.backing_up ? match.config.pairs : undefined;
+
+  if (wicketInput.type === WicketType.RETIRED_HURT) {
+    liveState.retired_hurt_ids = Array.from(
+      new Set([...(liveState.retired_hurt_ids ?? []), wicketInput.player_id])
+    );
+  } else if (pairs) {
+    liveState.score = {
+      ...liveState.score,
+      runs: liveState.score.runs - pairs.dismissal_runs,
+      wickets: liveState.score.wickets + 1,
+    };
+  } else {
+    liveState.score = { ...liveState.score, wickets: liveState.score.wickets + 1 };
+    liveState.dismissed_batter_ids = Array.from(
+      new Set([...(liveState.dismissed_batter_ids ?? []), wicketInput.player_id])
+    );
+    liveState.fall_of_wickets = addFallOfWicket(
+      liveState,
+      wicketInput.player_id,
+      getBallsPerOver(match.config)
+    );
+  }
+
+  if (wicketInput.backing_up) {
+    if (!pairs) {
+      playerStats.batters[wicketInput.player_id] = {
+        ...getBatterStats(playerStats, wicketInput.player_id),
+        dismissal: {
+          type: wicketInput.type,
+          ...(wicketInput.dismissed_by
+            ? { fielder_id: wicketInput.dismissed_by }
+            : {}),
+        },
+      };
+    }
+    creditFielders(playerStats, wicketInput);
+  } else {
+    playerStats.batters[wicketInput.player_id] = {
+      ...getBatterStats(playerStats, wicketInput.player_id),
+      dismissal: { type: wicketInput.type },
+    };
+  }
+  liveState.player_stats = playerStats;
+
+  if (pairs) {
+    liveState.pair_scores = recordPairBall(
+      preBallState.pair_scores,
+      getPairNumber(
+        match.config,
+        getLegalBalls(preBallState.score, getBallsPerOver(match.config)),
+        getBallsPerOver(match.config)
+      ),
+      [preBallState.striker_id, preBallState.non_striker_id],
+      -pairs.dismissal_runs,
+      true,
+      false
+    );
+  } else {
+    Object.assign(
+      liveState,
+      resolveEnds(
+        preBallState,
+        ballInput,
+        0,
+        false,
+        isBattingAlone(match, liveState, liveState.score.wickets)
+      )
+    );
+  }
+
+  markInningsClosure(liveState, match);
+
+  const ballIdentifier = options.ballId ?? createBallId(preBallState, false);
+  liveState.last_ball_id = ballIdentifier;
+
+  const ballEvent: BallEvent = {
+    id: ballIdentifier,
+    match_id: match.id,
+    innings_id: options.inningsId,
+    timestamp: null,
+    ...toLedgerFields(ballInput),
+    pre_ball_state: preBallState,
+    post_ball_state: deepCloneState(liveState),
+  };
+
+  return {
+    state: liveState,
+    ballEvent,
+    result: evaluateResult(liveState, match),
+  };
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+/**
+ * Create Innings Start State
+ *
+ * Derives the state at the first ball of an innings from any snapshot taken
+ * during it: team assignments and innings context are kept, while every
+ * derived counter (score, figures, dismissals, over history) is reset. The
+ * score starts from any penalty runs carried into the innings.
+ */
+export function createInningsStartState(
+  snapshot: MatchLiveState
+): MatchLiveState {
+  const start = deepCloneState(snapshot);
+  start.score = {
+    runs: start.opening_penalty_runs ?? 0,
+    wickets: 0,
+    overs: 0,
+    balls: 0,
+  };
+  start.player_stats = { batters: {}, bowlers: {} };
+  start.extras = {
+    ...getExtrasBreakdown({}),
+    penalties: start.opening_penalty_runs ?? 0,
+  };
+  start.dismissed_batter_ids = [];
+  start.fall_of_wickets = [];
+  start.retired_hurt_ids = [];
+  start.this_over = [];
+  start.is_free_hit = false;
+  delete start.fielding_penalty_runs;
+  delete start.pair_scores;
+  delete start.last_ball_id;
+  delete start.last_bowler_id;
+  delete start.over_tally;
+  delete start.innings_closed;
+  return start;
+}
+
+/**
+ * Apply Selections
+ *
+ * Personnel changes (new batter, new bowler) are written straight to
+ * live_state between balls, so they are not events of their own. Each ball's
+ * pre_ball_state records who was actually at the crease and bowling, which
+ * replays use to carry those selections forward. A retired-hurt batter who
+ * is back at the crease has resumed their innings.
+ */
+export const applySelections = (
+  state: MatchLiveState,
+  snapshot: MatchLiveState
+): MatchLiveState => {
+  const next: MatchLiveState = {
+    ...state,
+    striker_id: snapshot.striker_id,
+    non_striker_id: snapshot.non_striker_id,
+    bowler_id: snapshot.bowler_id,
+  };
+
+  const resumed = (state.retired_hurt_ids ?? []).filter((batterId) =>
+    [next.striker_id, next.non_striker_id].includes(batterId)
+  );
+  if (resumed.length === 0) return next;
+
+  const playerStats = clonePlayerStats(state.player_stats);
+  resumed.forEach((batterId) => {
+    const stats = { ...getBatterStats(playerStats, batterId) };
+    delete stats.dismissal;
+    playerStats.batters[batterId] = stats;
+  });
+  return {
+    ...next,
+    player_stats: playerStats,
+    retired_hurt_ids: (state.retired_hurt_ids ?? []).filter(
+      (batterId) => !resumed.includes(batterId)
+    ),
+  };
+};
+
+/**
+ * Replay Innings
+ *
+ * Rebuilds the live state of an innings purely from its ball ledger.
+ * Balls must be in the order they were bowled.
+ *
+ * @param match - Match config and teams
+ * @param balls - Ledger entries for a single innings, in order
+ * @param initialState - State before the first ball (defaults to one derived
+ *   from the first ball's pre_ball_state)
+ * @returns The state after the last ball and the match result, if any
+ */
+export function replayInnings(
+  match: EngineMatch,
+  balls: BallEvent[],
+  initialState?: MatchLiveState
+): { state: MatchLiveState; result: MatchResult | null } {
+  const seed = initialState ?? balls[0]?.pre_ball_state;
+  if (!seed) {
+    throw new Error("Cannot replay an innings without any balls or a starting state.");
+  }
+
+  let state = initialState
+    ? deepCloneState(initialState)
+    : createInningsStartState(seed);
+  let result: MatchResult | null = null;
+
+  balls.forEach((ball) => {
+    const outcome = applyBall(
+      applySelections(state, ball.pre_ball_state),
+      match,
+      ballEventToInput(ball),
+      { inningsId: ball.innings_id, ballId: ball.id }
+    );
+    state = outcome.state;
+    result = outcome.result;
+  });
+
+  return { state, result };
+}
@@ -0,0 +1,142 @@
+/**
+ * Display helpers for ledger entries (ball labels used across the scorer UI).
+ */
+
+import type { BallEvent, BatterDismissal, OverFormat } from "@/types/cricket";
+import { ExtraType, WicketType } from "@/types/cricket";
+import { getBallsPerOver } from "@/lib/cricket/engine";
+
+const EXTRA_LABELS: Partial<Record<ExtraType, string>> = {
+  [ExtraType.WIDE]: "Wd",
+  [ExtraType.NO_BALL]: "Nb",
+  [ExtraType.BYE]: "B",
+  [ExtraType.LEG_BYE]: "Lb",
+  [ExtraType.PENALTY]: "Pen",
+};
+
+/**
+ * Over formats offered when setting up a match.
+ */
+export const OVER_FORMATS: (OverFormat & { label: string })[] = [
+  { label: "6-ball overs", balls_per_over: 6 },
+  { label: "8-ball overs", balls_per_over: 8 },
+  { label: "5-ball sets", balls_per_over: 5 },
+  { label: "5-ball sets, 10 from one end", balls_per_over: 5, ten_from_one_end: true },
+];
+
+/**
+ * Position of a match's over format in OVER_FORMATS (6-ball overs if it is
+ * not one of the presets).
+ */
+export const getOverFormatIndex = (format: OverFormat) =>
+  Math.max(
+    0,
+    OVER_FORMATS.findIndex(
+      (preset) =>
+        preset.balls_per_over === getBallsPerOver(format) &&
+        !!preset.ten_from_one_end === !!format.ten_from_one_end
+    )
+  );
+
+/**
+ * Label for a match's over format, e.g. "8-ball overs".
+ */
+export const formatOverFormat = (format: OverFormat) => {
+  const ballsPerOver = getBallsPerOver(format);
+  if (ballsPerOver !== 5) return `${ballsPerOver}-ball overs`;
+  return format.ten_from_one_end ? "5-ball sets, 10 from one end" : "5-ball sets";
+};
+
+const INNINGS_ORDINALS = ["First", "Second", "Third", "Fourth"];
+
+/**
+ * Label for an innings number, e.g. "Third Innings".
+ */
+export const formatInningsLabel = (innings: number) =>
+  `${INNINGS_ORDINALS[innings - 1] ?? innings} Innings`;
+
+const INNINGS_SHORT_ORDINALS = ["1st", "2nd", "3rd", "4th"];
+
+/**
+ * Short label for an innings number, e.g. "2nd innings", or
+ * "Super over 1, 2nd innings" for an innings of a super over.
+ */
+export const formatInningsShortLabel = (innings: number, superOver?: number | null) => {
+  const label = `${INNINGS_SHORT_ORDINALS[innings - 1] ?? innings} innings`;
+  return superOver ? `Super over ${superOver}, ${label}` : label;
+};
+
+/**
+ * Legal balls as overs, e.g. "4" or "2.3".
+ */
+export const formatOvers = (legalBalls: number, ballsPerOver: number) => {
+  const overs = Math.floor(legalBalls / ballsPerOver);
+  const balls = legalBalls % ballsPerOver;
+  return balls > 0 ? `${overs}.${balls}` : `${overs}`;
+};
+
+/**
+ * Over.ball position of a delivery, e.g. "5.4" for the 4th ball of the 6th over.
+ */
+export const formatBallPosition = (ball: BallEvent) =>
+  `${ball.pre_ball_state.score.overs}.${ball.pre_ball_state.score.balls + 1}`;
+
+/**
+ * Short outcome of a delivery, e.g. "4", "1Wd", "1Nb + 2" or "0 + W".
+ */
+export const formatBallOutcome = (ball: Pick<BallEvent, "runs_off_bat" | "extras" | "wicket">) => {
+  if (ball.wicket?.type === WicketType.RETIRED_HURT) return "Ret hurt";
+  if (ball.wicket?.type === WicketType.RETIRED) return "Ret out";
+  const parts: string[] = [];
+  if (ball.extras?.type) {
+    parts.push(`${ball.extras.runs}${EXTRA_LABELS[ball.extras.type] ?? ""}`);
+  }
+  if (ball.runs_off_bat > 0 || parts.length === 0) {
+    parts.push(String(ball.runs_off_bat));
+  }
+  if (ball.wicket?.is_out) {
+    parts.push("W");
+  }
+  return parts.join(" + ");
+};
+
+/**
+ * Batting card dismissal text, e.g. "c Smith b Jones", "lbw b Jones" or
+ * "run out (Smith)".
+ */
+export const formatDismissal = (
+  dismissal: BatterDismissal,
+  playerName: (playerId?: string) => string
+) => {
+  const bowler = dismissal.bowler_id ? ` b ${playerName(dismissal.bowler_id)}` : "";
+  const fielder = dismissal.fielder_id ? playerName(dismissal.fielder_id) : "";
+
+  switch (dismissal.type) {
+    case WicketType.BOWLED:
+      return `b ${playerName(dismissal.bowler_id)}`;
+    case WicketType.CAUGHT:
+      if (!fielder || dismissal.fielder_id === dismissal.bowler_id) {
+        return `c & b ${playerName(dismissal.bowler_id)}`;
+      }
+      return `c ${fielder}${bowler}`;
+    case WicketType.LBW:
+      return `lbw${bowler}`;
+    case WicketType.STUMPED:
+      return fielder ? `st ${fielder}${bowler}` : `stumped${bowler}`;
+    case WicketType.HIT_WICKET:
+      return `hit wicket${bowler}`;
+    case WicketType.BOUNDARY_OUT:
+      return `boundary out${bowler}`;
+    case WicketType.RUN_OUT:
+      if (!fielder) return "run out";
+      return dismissal.assisting_fielder_id
+        ? `run out (${playerName(dismissal.assisting_fielder_id)}/${fielder})`
+        : `run out (${fielder})`;
+    case WicketType.RETIRED:
+      return "retired out";
+    case WicketType.RETIRED_HURT:
+      return "retired hurt";
+    default:
+      return "out";
+  }
+};
@@ -0,0 +1,101 @@
+/**
+ * Innings
+ *
+ * How many innings a match has, each side's runs across the innings it has
+ * completed, the lead, and when the follow-on may be enforced. Matches
+ * where each side bats twice (Test / two-day) have four innings.
+ */
+
+import type {
+  InningsSummary,
+  MatchConfig,
+  MatchLiveState,
+  TeamId,
+} from "@/types/cricket";
+
+export const DEFAULT_FOLLOW_ON_MARGIN = 200;
+
+/**
+ * Innings each side bats (1 unless configured otherwise).
+ */
+export const getInningsPerSide = (
+  config: Pick<MatchConfig, "innings_per_side">
+): number => config.innings_per_side ?? 1;
+
+/**
+ * Innings in the match: two, or four when each side bats twice.
+ */
+export const getTotalInnings = (
+  config: Pick<MatchConfig, "innings_per_side">
+): number => getInningsPerSide(config) * 2;
+
+/**
+ * Whether the innings in play is the last of the match, when the side
+ * batting is chasing. A super over always has two innings.
+ */
+export const isFinalInnings = (
+  state: Pick<MatchLiveState, "current_innings" | "super_over">,
+  config: Pick<MatchConfig, "innings_per_side">
+): boolean =>
+  (state.current_innings ?? 1) ===
+  (state.super_over ? 2 : getTotalInnings(config));
+
+/**
+ * Runs a side has scored in its completed innings.
+ */
+export const getSideRuns = (
+  summaries: InningsSummary[] | undefined,
+  teamId: string
+): number =>
+  (summaries ?? [])
+    .filter((summary) => summary.batting_team_id === teamId)
+    .reduce((total, summary) => total + summary.score.runs, 0);
+
+/**
+ * Lead of the batting side over the fielding side: completed innings plus
+ * the innings in play, with penalty runs awarded to the fielding side this
+ * innings counted for it. Negative while the batting side trails.
+ */
+export const getLead = (
+  summaries: InningsSummary[] | undefined,
+  state: Pick<
+    MatchLiveState,
+    "batting_team_id" | "bowling_team_id" | "score" | "fielding_penalty_runs"
+  >
+): number =>
+  getSideRuns(summaries, state.batting_team_id) +
+  state.score.runs -
+  getSideRuns(summaries, state.bowling_team_id) -
+  (state.fielding_penalty_runs ?? 0);
+
+/**
+ * Whether the side that batted first may make the other side follow on once
+ * the second innings closes: only in two-innings matches, with a lead of at
+ * least the follow-on margin.
+ */
+export const canEnforceFollowOn = (
+  config: Pick<MatchConfig, "innings_per_side" | "follow_on_margin">,
+  summaries: InningsSummary[] | undefined,
+  state: MatchLiveState
+): boolean =>
+  getInningsPerSide(config) === 2 &&
+  !state.super_over &&
+  state.current_innings === 2 &&
+  -getLead(summaries, state) >=
+    (config.follow_on_margin ?? DEFAULT_FOLLOW_ON_MARGIN);
+
+/**
+ * Summary of the innings in play as it stands, with its scorecard.
+ */
+export const buildInningsSummary = (state: MatchLiveState): InningsSummary => ({
+  innings: state.current_innings ?? 1,
+  batting_team_id: state.batting_team_id as TeamId,
+  bowling_team_id: state.bowling_team_id as TeamId,
+  score: { ...state.score },
+  ...(state.declared ? { declared: true } : {}),
+  ...(state.follow_on ? { follow_on: true } : {}),
+  ...(state.pair_scores ? { pair_scores: state.pair_scores } : {}),
+  player_stats: state.player_stats ?? { batters: {}, bowlers: {} },
+  ...(state.extras ? { extras: state.extras } : {}),
+  fall_of_wickets: state.fall_of_wickets ?? [],
+});
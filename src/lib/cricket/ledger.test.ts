@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import type { BallEvent, BallInput } from "@/types/cricket";
+import { ExtraType, WicketType } from "@/types/cricket";
+import type { EngineMatch } from "@/lib/cricket/engine";
+import { rederiveInnings } from "@/lib/cricket/ledger";
+import { buildMatch, dot, firstInningsState, play } from "@/test/fixtures";
+
+const match = buildMatch({ total_overs: 10 });
+const startState = firstInningsState();
+
+// Two overs of dots, b1 then b2, recorded the way live scoring records them
+const recordOvers = (): BallEvent[] => {
+  const firstOver = play(match, startState, Array(6).fill(dot));
+  const secondOver = play(
+    match,
+    { ...firstOver.state, bowler_id: "b2" },
+    Array(6).fill(dot)
+  );
+  return [...firstOver.balls, ...secondOver.balls];
+};
+
+const withInput = (ball: BallEvent, input: BallInput): BallEvent => ({
+  ...ball,
+  runs_off_bat: input.runs_off_bat,
+  extras: input.extras ?? null,
+  wicket: input.wicket ? { ...input.wicket, is_out: true } : null,
+});
+
+describe("rederiveInnings", () => {
+  it("rederives an edit that keeps every over with one bowler", () => {
+    const balls = recordOvers();
+    const edited = balls.map((ball, index) =>
+      index === 3 ? withInput(ball, { runs_off_bat: 4 }) : ball
+    );
+
+    const { state } = rederiveInnings(match, "1", edited, startState);
+
+    expect(state.score).toEqual({ runs: 4, wickets: 0, overs: 2, balls: 0 });
+    expect(state.player_stats?.bowlers.b1).toMatchObject({ runs: 4, balls: 6 });
+    expect(state.player_stats?.bowlers.b2).toMatchObject({ runs: 0, balls: 6 });
+  });
+
+  it("re-attributes the overs a missed ball pushes along", () => {
+    const balls = recordOvers();
+    const inserted = { ...balls[2], id: `${balls[2].id}_inserted` };
+    const edited = [...balls.slice(0, 2), inserted, ...balls.slice(2)];
+
+    const rederived = rederiveInnings(match, "1", edited, startState);
+    const bowlers = rederived.balls.map((ball) => ball.pre_ball_state.bowler_id);
+
+    // b1's last ball now opens over 2, which b2 bowled most of; b2's last
+    // ball spills into over 3, which goes to b1 at the other end
+    expect(bowlers).toEqual([...Array(6).fill("b1"), ...Array(6).fill("b2"), "b1"]);
+    expect(rederived.state.score).toEqual({ runs: 0, wickets: 0, overs: 2, balls: 1 });
+    expect(rederived.state.player_stats?.bowlers.b1).toMatchObject({ balls: 7, maidens: 1 });
+    expect(rederived.state.player_stats?.bowlers.b2).toMatchObject({ balls: 6, maidens: 1 });
+  });
+
+  it("re-attributes the over a deleted ball pulls the next bowler's first ball into", () => {
+    const balls = recordOvers();
+    const edited = balls.filter((_, index) => index !== 2);
+
+    const rederived = rederiveInnings(match, "1", edited, startState);
+    const bowlers = rederived.balls.map((ball) => ball.pre_ball_state.bowler_id);
+
+    expect(bowlers).toEqual([...Array(6).fill("b1"), ...Array(5).fill("b2")]);
+    expect(rederived.state.score).toEqual({ runs: 0, wickets: 0, overs: 1, balls: 5 });
+    expect(rederived.state.last_bowler_id).toBe("b1");
+    expect(rederived.state.player_stats?.bowlers.b1).toMatchObject({ balls: 6, maidens: 1 });
+    expect(rederived.state.player_stats?.bowlers.b2).toMatchObject({ balls: 5, maidens: 0 });
+  });
+
+  it("keeps a change of bowler mid-over when no ball moves into the over", () => {
+    const firstBalls = play(match, startState, Array(3).fill(dot));
+    const injuryCover = play(
+      match,
+      { ...firstBalls.state, bowler_id: "b3" },
+      Array(3).fill(dot)
+    );
+    const balls = [...firstBalls.balls, ...injuryCover.balls];
+    const edited = balls.map((ball, index) =>
+      index === 4 ? withInput(ball, { runs_off_bat: 2 }) : ball
+    );
+
+    const rederived = rederiveInnings(match, "1", edited, startState);
+
+    expect(rederived.balls.map((ball) => ball.pre_ball_state.bowler_id)).toEqual([
+      ...Array(3).fill("b1"),
+      ...Array(3).fill("b3"),
+    ]);
+    expect(rederived.state.player_stats?.bowlers.b3).toMatchObject({ balls: 3, runs: 2 });
+  });
+
+  it("re-attributes the over a dot ball corrected to a wide pulls a ball into", () => {
+    const balls = recordOvers();
+    const edited = balls.map((ball, index) =>
+      index === 3
+        ? withInput(ball, { runs_off_bat: 0, extras: { type: ExtraType.WIDE, runs: 1 } })
+        : ball
+    );
+
+    const rederived = rederiveInnings(match, "1", edited, startState);
+    const bowlers = rederived.balls.map((ball) => ball.pre_ball_state.bowler_id);
+
+    expect(bowlers).toEqual([...Array(7).fill("b1"), ...Array(5).fill("b2")]);
+    expect(rederived.state.score).toEqual({ runs: 1, wickets: 0, overs: 1, balls: 5 });
+    expect(rederived.state.player_stats?.bowlers.b1).toMatchObject({
+      balls: 6,
+      runs: 1,
+      wides: 1,
+      maidens: 0,
+    });
+    expect(rederived.state.player_stats?.bowlers.b2).toMatchObject({ balls: 5, runs: 0 });
+  });
+
+  it("re-attributes the overs a wide corrected to a legal ball pushes along", () => {
+    const firstOver = play(match, startState, [
+      { runs_off_bat: 0, extras: { type: ExtraType.WIDE, runs: 1 } },
+      ...Array(6).fill(dot),
+    ]);
+    const secondOver = play(
+      match,
+      { ...firstOver.state, bowler_id: "b2" },
+      Array(6).fill(dot)
+    );
+    const balls = [...firstOver.balls, ...secondOver.balls];
+    const edited = balls.map((ball, index) =>
+      index === 0 ? withInput(ball, { runs_off_bat: 0 }) : ball
+    );
+
+    const rederived = rederiveInnings(match, "1", edited, startState);
+    const bowlers = rederived.balls.map((ball) => ball.pre_ball_state.bowler_id);
+
+    expect(bowlers).toEqual([...Array(6).fill("b1"), ...Array(6).fill("b2"), "b1"]);
+    expect(rederived.state.score).toEqual({ runs: 0, wickets: 0, overs: 2, balls: 1 });
+    expect(rederived.state.player_stats?.bowlers.b1).toMatchObject({ balls: 7, wides: 0 });
+  });
+
+  it("holds an edited ball to the match's house rules", () => {
+    const noLbw: EngineMatch = {
+      ...match,
+      config: {
+        ...match.config,
+        house_rules: {
+          allowed_wickets: [WicketType.BOWLED, WicketType.CAUGHT, WicketType.RUN_OUT],
+        },
+      },
+    };
+    const edited = recordOvers().map((ball, index) =>
+      index === 1
+        ? withInput(ball, {
+            runs_off_bat: 0,
+            wicket: { type: WicketType.LBW, player_id: "a1", is_striker_out: true },
+          })
+        : ball
+    );
+
+    expect(() => rederiveInnings(noLbw, "1", edited, startState)).toThrow(
+      /not in play under this match's house rules/
+    );
+  });
+
+  it("refuses an edit that moves a wicket onto the last ball when it cannot take one", () => {
+    const lastBallSafe: EngineMatch = {
+      ...match,
+      config: { ...match.config, house_rules: { no_wicket_last_ball: true } },
+    };
+    const balls = recordOvers().map((ball, index) =>
+      index === 4
+        ? withInput(ball, {
+            runs_off_bat: 0,
+            wicket: { type: WicketType.BOWLED, player_id: "a1", is_striker_out: true },
+          })
+        : ball
+    );
+    const inserted = { ...balls[2], id: `${balls[2].id}_inserted` };
+    const edited = [...balls.slice(0, 2), inserted, ...balls.slice(2)];
+
+    expect(() => rederiveInnings(lastBallSafe, "1", balls.slice(0, 5), startState)).not.toThrow();
+    expect(() => rederiveInnings(lastBallSafe, "1", edited, startState)).toThrow(
+      /last ball of an over, which cannot take a wicket/
+    );
+  });
+});
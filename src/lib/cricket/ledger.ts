@@ -0,0 +1,452 @@
+/**
+ * Ledger Verification
+ *
+ * Replays an innings ball by ball and cross-checks the stored snapshots
+ * (pre_ball_state / post_ball_state) and the match live_state against the
+ * state the scoring engine derives from the events alone.
+ */
+
+import type {
+  BallEvent,
+  InningsId,
+  InningsLedgerReport,
+  LedgerIssue,
+  MatchLiveState,
+  MatchResult,
+} from "@/types/cricket";
+import {
+  applyBall,
+  applySelections,
+  ballEventToInput,
+  createBallId,
+  createInningsStartState,
+  deepCloneState,
+  endsChangeAfterOver,
+  getBallsPerOver,
+  getBowlerBallsRemaining,
+  getLegalBalls,
+  getInningsOvers,
+  getMaxWickets,
+  countsAsBall,
+  isDeliveryEvent,
+  isLastBallWicketBarred,
+  isPenaltyEvent,
+  validateDismissal,
+  type EngineMatch,
+} from "@/lib/cricket/engine";
+
+/**
+ * Expected end state of an innings. A live innings is compared against the
+ * full live_state; a completed innings only has its total to compare against.
+ */
+export interface InningsExpectation {
+  state?: MatchLiveState;
+  total?: number;
+}
+
+// JSON.stringify with sorted keys, so Firestore map ordering never matters
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export interface RederivedInnings {
+  balls: BallEvent[]; // Ledger entries with renumbered ids and fresh snapshots
+  state: MatchLiveState; // State after the last ball
+  result: MatchResult | null; // Match result produced by the last ball, if any
+}
+
+/**
+ * Attribute Overs
+ *
+ * Adding or removing a legal ball moves every later over boundary, so balls
+ * can land in an over begun by someone else. Splits the edited ledger into
+ * its new overs and gives each over a ball moved into (or one left with the
+ * bowler of the over before) to whoever bowled most of its legal balls,
+ * ties going to whoever bowled first. The bowler of the previous over is
+ * passed over while the ends change; if nobody else bowled in the over it
+ * goes to the bowler at that end, who bowled the over before last. Overs
+ * no ball moved into keep their recorded bowlers, including any change of
+ * bowler mid-over.
+ *
+ * @returns The bowler of each over, or undefined where the recorded bowlers stand
+ */
+const attributeOvers = (
+  match: EngineMatch,
+  balls: BallEvent[]
+): (string | undefined)[] => {
+  const ballsPerOver = getBallsPerOver(match.config);
+  const overs: BallEvent[][] = [];
+  let legalBalls = 0;
+  balls.forEach((ball) => {
+    if (!isDeliveryEvent(ball)) return;
+    const over = Math.floor(legalBalls / ballsPerOver);
+    overs[over] = [...(overs[over] ?? []), ball];
+    if (countsAsBall(ball)) legalBalls += 1;
+  });
+
+  const attributed: (string | undefined)[] = [];
+  // Who bowled the end of each over, as last_bowler_id will record it
+  const overEndBowlers: string[] = [];
+  overs.forEach((deliveries, over) => {
+    const barred =
+      over > 0 && endsChangeAfterOver(match.config, over)
+        ? overEndBowlers[over - 1]
+        : undefined;
+    const recordedBowlers = deliveries.map((ball) => ball.pre_ball_state.bowler_id);
+    const moved = deliveries.some((ball) => ball.pre_ball_state.score.overs !== over);
+
+    if (!moved && !(barred && recordedBowlers.includes(barred))) {
+      overEndBowlers[over] = recordedBowlers[recordedBowlers.length - 1];
+      return;
+    }
+
+    // Legal balls per bowler, in the order they first bowled in the over
+    const tally = new Map<string, number>();
+    deliveries.forEach((ball) => {
+      const bowlerId = ball.pre_ball_state.bowler_id;
+      if (!bowlerId || bowlerId === barred) return;
+      tally.set(bowlerId, (tally.get(bowlerId) ?? 0) + (countsAsBall(ball) ? 1 : 0));
+    });
+    let majority: string | undefined;
+    tally.forEach((count, bowlerId) => {
+      if (majority === undefined || count > (tally.get(majority) ?? 0)) {
+        majority = bowlerId;
+      }
+    });
+    const sameEndBowler = over > 1 ? overEndBowlers[over - 2] : undefined;
+    const bowlerId = majority ?? (sameEndBowler !== barred ? sameEndBowler : undefined);
+    if (!bowlerId) {
+      throw new Error(
+        `Over ${over + 1} would be bowled by the bowler of the previous over. Please correct the bowler first.`
+      );
+    }
+    attributed[over] = bowlerId;
+    overEndBowlers[over] = bowlerId;
+  });
+  return attributed;
+};
+
+/**
+ * Rederive Innings
+ *
+ * Re-applies an edited list of ledger entries from the start of the innings,
+ * rewriting every ball's id, pre_ball_state and post_ball_state. Who was
+ * batting is taken from each ball's stored pre_ball_state, and who bowled
+ * from the same unless the edit moved balls between overs (see
+ * attributeOvers). Throws if the edit leaves a later ball impossible (e.g.
+ * faced by a batter who is now out or bowled after the innings would have
+ * ended).
+ *
+ * @param match - Match config and teams
+ * @param inningsId - Innings being rewritten
+ * @param balls - Edited ledger entries in order
+ * @param seed - Any snapshot from the innings, used to build the start state
+ */
+export function rederiveInnings(
+  match: EngineMatch,
+  inningsId: InningsId,
+  balls: BallEvent[],
+  seed: MatchLiveState
+): RederivedInnings {
+  let state = createInningsStartState(seed);
+  let result: MatchResult | null = null;
+  const overBowlers = attributeOvers(match, balls);
+
+  const rewritten = balls.map((ball) => {
+    if (result) {
+      throw new Error(`The match would already be decided before ball ${ball.id}.`);
+    }
+
+    const preState = applySelections(state, ball.pre_ball_state);
+    if (isPenaltyEvent(ball.extras)) {
+      // Penalties can be awarded at any time, even once the innings is over
+      const outcome = applyBall(preState, match, ballEventToInput(ball), {
+        inningsId,
+        ballId: createBallId(preState, false, ball.id),
+      });
+      state = outcome.state;
+      result = outcome.result;
+      return { ...outcome.ballEvent, timestamp: ball.timestamp };
+    }
+
+    const dismissed = new Set(preState.dismissed_batter_ids ?? []);
+    const maxWickets = getMaxWickets(
+      match,
+      preState.batting_team_id,
+      !!preState.super_over
+    );
+    const totalOvers = match.config ? getInningsOvers(preState, match.config) : 0;
+
+    if (maxWickets > 0 && preState.score.wickets >= maxWickets) {
+      throw new Error(`The innings would already be all out before ball ${ball.id}.`);
+    }
+    if (preState.score.overs >= totalOvers) {
+      throw new Error(`All ${totalOvers} overs would already be bowled before ball ${ball.id}.`);
+    }
+    [preState.striker_id, preState.non_striker_id].forEach((batterId) => {
+      if (batterId && dismissed.has(batterId)) {
+        throw new Error(`Ball ${ball.id} would be faced by a batter who is already out.`);
+      }
+    });
+
+    const input = ballEventToInput(ball);
+    const overBowler = overBowlers[preState.score.overs];
+    if (isDeliveryEvent(input) && overBowler) {
+      preState.bowler_id = overBowler;
+    }
+    if (
+      isDeliveryEvent(input) &&
+      preState.bowler_id &&
+      getBowlerBallsRemaining(match.config, preState.player_stats, preState.bowler_id) === 0
+    ) {
+      throw new Error(`Ball ${ball.id} would be bowled by a bowler who has finished their quota.`);
+    }
+    if (input.wicket && dismissed.has(input.wicket.player_id)) {
+      throw new Error(`Ball ${ball.id} dismisses a batter who is already out.`);
+    }
+    // The house rules and laws hold for every ball, wherever it now falls
+    validateDismissal(input, false, match.config);
+    if (isLastBallWicketBarred(preState.score, match.config, input)) {
+      throw new Error(`Ball ${ball.id} would be the last ball of an over, which cannot take a wicket under this match's house rules.`);
+    }
+    if (preState.is_free_hit) {
+      try {
+        validateDismissal(input, true, match.config);
+      } catch {
+        throw new Error(`Ball ${ball.id} would be a free hit and its dismissal is not allowed.`);
+      }
+    }
+
+    const ballId = createBallId(preState, countsAsBall(input), ball.id);
+    const outcome = applyBall(preState, match, input, { inningsId, ballId });
+    state = outcome.state;
+    result = outcome.result;
+
+    return { ...outcome.ballEvent, timestamp: ball.timestamp };
+  });
+
+  return { balls: rewritten, state, result };
+}
+
+/**
+ * Carry Selections
+ *
+ * After a ledger rewrite, keeps any batter or bowler the scorer selected
+ * since the last ball (i.e. where live_state no longer matches the stored
+ * post_ball_state of the last ball) on top of the rederived state.
+ */
+export function carrySelections(
+  rederived: MatchLiveState,
+  liveState: MatchLiveState,
+  lastPostState?: MatchLiveState
+): MatchLiveState {
+  const next = deepCloneState(rederived);
+  (["striker_id", "non_striker_id", "bowler_id"] as const).forEach((key) => {
+    if (lastPostState && liveState[key] !== lastPostState[key]) {
+      next[key] = liveState[key];
+    }
+  });
+  const dismissed = new Set(next.dismissed_batter_ids ?? []);
+  if (dismissed.has(next.striker_id)) next.striker_id = "";
+  if (dismissed.has(next.non_striker_id)) next.non_striker_id = "";
+  // Picks up any retired-hurt batter who has resumed since the last ball
+  return applySelections(next, next);
+}
+
+/**
+ * Diff Derived State
+ *
+ * Lists the derived fields (score, figures, dismissals, free hit) that differ
+ * between two states. Personnel fields are ignored because new batters and
+ * bowlers are selected between balls.
+ */
+export function diffDerivedState(
+  actual: MatchLiveState,
+  expected: MatchLiveState
+): string[] {
+  const fields: string[] = [];
+  (["runs", "wickets", "overs", "balls"] as const).forEach((key) => {
+    if ((actual.score?.[key] ?? 0) !== (expected.score?.[key] ?? 0)) {
+      fields.push(`score.${key}`);
+    }
+  });
+  if (
+    stableStringify(actual.player_stats ?? { batters: {}, bowlers: {} }) !==
+    stableStringify(expected.player_stats ?? { batters: {}, bowlers: {} })
+  ) {
+    fields.push("player_stats");
+  }
+  const sortedDismissed = (state: MatchLiveState) =>
+    [...(state.dismissed_batter_ids ?? [])].sort();
+  if (
+    stableStringify(sortedDismissed(actual)) !==
+    stableStringify(sortedDismissed(expected))
+  ) {
+    fields.push("dismissed_batter_ids");
+  }
+  const sortedRetiredHurt = (state: MatchLiveState) =>
+    [...(state.retired_hurt_ids ?? [])].sort();
+  if (
+    stableStringify(sortedRetiredHurt(actual)) !==
+    stableStringify(sortedRetiredHurt(expected))
+  ) {
+    fields.push("retired_hurt_ids");
+  }
+  if (!!actual.is_free_hit !== !!expected.is_free_hit) {
+    fields.push("is_free_hit");
+  }
+  if ((actual.fielding_penalty_runs ?? 0) !== (expected.fielding_penalty_runs ?? 0)) {
+    fields.push("fielding_penalty_runs");
+  }
+  return fields;
+}
+
+/**
+ * Verify Innings Ledger
+ *
+ * @param match - Match config and teams
+ * @param inningsId - Innings being verified
+ * @param balls - Ledger entries in the order they were recorded
+ * @param expected - What the innings should end at (live_state or total)
+ * @returns Issues found and the state rebuilt from the ledger
+ */
+export function verifyInningsLedger(
+  match: EngineMatch,
+  inningsId: InningsId,
+  balls: BallEvent[],
+  expected?: InningsExpectation
+): InningsLedgerReport {
+  const issues: LedgerIssue[] = [];
+  const ballsPerOver = getBallsPerOver(match.config);
+
+  if (balls.length === 0) {
+    if (expected?.state && getLegalBalls(expected.state.score, ballsPerOver) > 0) {
+      issues.push({
+        type: "gap",
+        innings_id: inningsId,
+        message: "Live state shows deliveries but the ledger is empty.",
+      });
+    }
+    return { innings_id: inningsId, ball_count: 0, issues, replayed_state: null };
+  }
+
+  const seenIds = new Set<string>();
+  let state = createInningsStartState(balls[0].pre_ball_state);
+
+  balls.forEach((ball, index) => {
+    if (seenIds.has(ball.id)) {
+      issues.push({
+        type: "duplicate",
+        innings_id: inningsId,
+        ball_id: ball.id,
+        message: `Ball ${ball.id} is recorded more than once.`,
+      });
+    }
+    seenIds.add(ball.id);
+
+    const previous = index > 0 ? balls[index - 1] : null;
+    const linkedState = previous?.post_ball_state ?? state;
+    const expectedBallsBowled = getLegalBalls(linkedState.score, ballsPerOver);
+    const recordedBallsBowled = getLegalBalls(ball.pre_ball_state.score, ballsPerOver);
+
+    if (recordedBallsBowled > expectedBallsBowled) {
+      const missing = recordedBallsBowled - expectedBallsBowled;
+      issues.push({
+        type: "gap",
+        innings_id: inningsId,
+        ball_id: ball.id,
+        message: `${missing} deliver${missing === 1 ? "y is" : "ies are"} missing before ball ${ball.id}.`,
+      });
+    } else {
+      // A retired-hurt batter resuming between balls is a selection, not drift
+      const fields = diffDerivedState(
+        ball.pre_ball_state,
+        applySelections(linkedState, ball.pre_ball_state)
+      );
+      if (fields.length > 0) {
+        issues.push({
+          type: "drift",
+          innings_id: inningsId,
+          ball_id: ball.id,
+          field: fields.map((field) => `pre_ball_state.${field}`).join(", "),
+          message: previous
+            ? `Ball ${ball.id} does not start where ball ${previous.id} ended (${fields.join(", ")}).`
+            : `Ball ${ball.id} does not start from an empty innings (${fields.join(", ")}).`,
+        });
+      }
+    }
+
+    const input = ballEventToInput(ball);
+    const options = { inningsId, ballId: ball.id };
+    state = applyBall(
+      applySelections(state, ball.pre_ball_state),
+      match,
+      input,
+      options
+    ).state;
+
+    // Each ball is checked against its own pre_ball_state so one missing
+    // delivery does not flag every snapshot recorded after it.
+    if (ball.post_ball_state) {
+      const recomputed = applyBall(ball.pre_ball_state, match, input, options);
+      const fields = diffDerivedState(ball.post_ball_state, recomputed.state);
+      if (fields.length > 0) {
+        issues.push({
+          type: "drift",
+          innings_id: inningsId,
+          ball_id: ball.id,
+          field: fields.map((field) => `post_ball_state.${field}`).join(", "),
+          message: `Stored result of ball ${ball.id} differs from the scoring rules (${fields.join(", ")}).`,
+        });
+      }
+    }
+
+    const expectedId = `${ball.pre_ball_state.score.overs}_${ball.pre_ball_state.score.balls}`;
+    if (countsAsBall(ball) && ball.id !== expectedId) {
+      issues.push({
+        type: "drift",
+        innings_id: inningsId,
+        ball_id: ball.id,
+        field: "id",
+        message: `Ball ${ball.id} should be numbered ${expectedId}.`,
+      });
+    }
+  });
+
+  if (expected?.state) {
+    const fields = diffDerivedState(expected.state, state);
+    if (fields.length > 0) {
+      issues.push({
+        type: "drift",
+        innings_id: inningsId,
+        field: fields.map((field) => `live_state.${field}`).join(", "),
+        message: `Live state differs from the ledger replay (${fields.join(", ")}).`,
+      });
+    }
+  } else if (expected?.total != null && expected.total !== state.score.runs) {
+    issues.push({
+      type: "drift",
+      innings_id: inningsId,
+      field: "first_innings_total",
+      message: `Innings total is stored as ${expected.total} but the ledger adds up to ${state.score.runs}.`,
+    });
+  }
+
+  return {
+    innings_id: inningsId,
+    ball_count: balls.length,
+    issues,
+    replayed_state: state,
+  };
+}
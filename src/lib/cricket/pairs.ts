@@ -0,0 +1,115 @@
+/**
+ * Pairs Cricket
+ *
+ * Batters come in as pairs, each batting a fixed block of overs. A dismissal
+ * takes runs off the total instead of ending anyone's innings, so a side is
+ * never all out, and the next pair comes in once a pair's overs are done.
+ */
+
+import type {
+  MatchConfig,
+  MatchLiveState,
+  PairScore,
+  Player,
+} from "@/types/cricket";
+
+export const DEFAULT_DISMISSAL_RUNS = 5;
+
+/**
+ * Whether the match is played as pairs cricket.
+ */
+export const isPairsMatch = (config: Pick<MatchConfig, "pairs">): boolean =>
+  !!config.pairs;
+
+/**
+ * Number (1-based) of the pair batting once the given legal balls have
+ * been bowled.
+ */
+export const getPairNumber = (
+  config: Pick<MatchConfig, "pairs">,
+  legalBalls: number,
+  ballsPerOver: number
+): number =>
+  config.pairs
+    ? Math.floor(legalBalls / (config.pairs.overs_per_pair * ballsPerOver)) + 1
+    : 1;
+
+/**
+ * Whether the legal ball just bowled finished a pair's block of overs.
+ */
+export const isPairComplete = (
+  config: Pick<MatchConfig, "pairs">,
+  legalBalls: number,
+  ballsPerOver: number
+): boolean =>
+  !!config.pairs &&
+  legalBalls > 0 &&
+  legalBalls % (config.pairs.overs_per_pair * ballsPerOver) === 0;
+
+/**
+ * Next Pair
+ *
+ * The next two batters in team order who have not yet batted this innings.
+ * An end is left empty (for the scorer to fill) when the batting order has
+ * run out.
+ */
+export function getNextPair(
+  players: Player[],
+  state: Pick<MatchLiveState, "pair_scores" | "striker_id" | "non_striker_id">
+): Pick<MatchLiveState, "striker_id" | "non_striker_id"> {
+  const batted = new Set([
+    ...(state.pair_scores ?? []).flatMap((pair) => pair.batter_ids),
+    state.striker_id,
+    state.non_striker_id,
+  ]);
+  const [striker, nonStriker] = players.filter((player) => !batted.has(player.id));
+  return {
+    striker_id: striker?.id ?? "",
+    non_striker_id: nonStriker?.id ?? "",
+  };
+}
+
+/**
+ * Record Pair Ball
+ *
+ * Adds one ball to the score of the pair that faced it.
+ *
+ * @param pairScores - Pair scores before the ball (not mutated)
+ * @param pairNumber - Pair at the crease
+ * @param batterIds - Batters at the crease for the ball
+ * @param runs - Runs the ball added, less any dismissal deduction
+ * @param dismissed - Whether a batter was dismissed
+ * @param legalDelivery - Whether the ball counts towards the pair's overs
+ */
+export function recordPairBall(
+  pairScores: PairScore[] | undefined,
+  pairNumber: number,
+  batterIds: string[],
+  runs: number,
+  dismissed: boolean,
+  legalDelivery: boolean
+): PairScore[] {
+  const scores = [...(pairScores ?? [])];
+  const index = scores.findIndex((pair) => pair.pair === pairNumber);
+  const current: PairScore =
+    index >= 0
+      ? scores[index]
+      : { pair: pairNumber, batter_ids: [], runs: 0, wickets: 0, balls: 0 };
+
+  const updated: PairScore = {
+    ...current,
+    batter_ids: Array.from(
+      new Set([...current.batter_ids, ...batterIds.filter(Boolean)])
+    ),
+    runs: current.runs + runs,
+    wickets: current.wickets + (dismissed ? 1 : 0),
+    balls: current.balls + (legalDelivery ? 1 : 0),
+  };
+
+  if (index >= 0) {
+    scores[index] = updated;
+  } else {
+    scores.push(updated);
+  }
+  return scores;
+}
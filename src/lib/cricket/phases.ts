@@ -0,0 +1,143 @@
+/**
+ * Match Phases
+ *
+ * Powerplay, middle and death overs as described in MatchConfig.phases,
+ * and per-phase scoring worked out from an innings' ball ledger.
+ */
+
+import type {
+  BallEvent,
+  MatchConfig,
+  MatchPhase,
+  MatchPhaseName,
+  PhaseSummary,
+  Score,
+} from "@/types/cricket";
+import { WicketType } from "@/types/cricket";
+import {
+  ballEventToInput,
+  calculateRuns,
+  countsAsBall,
+  getDismissalDeduction,
+  isPenaltyEvent,
+} from "@/lib/cricket/engine";
+
+export const PHASE_LABELS: Record<MatchPhaseName, string> = {
+  powerplay: "Powerplay",
+  middle: "Middle overs",
+  death: "Death overs",
+};
+
+/**
+ * Build Phases
+ *
+ * Splits an innings into a powerplay at the start, death overs at the end
+ * and middle overs in between. Phases with no overs are left out.
+ *
+ * @param totalOvers - Overs per innings
+ * @param powerplayOvers - Overs in the powerplay (from over 1)
+ * @param deathOvers - Overs at the end of the innings
+ */
+export function buildPhases(
+  totalOvers: number,
+  powerplayOvers: number,
+  deathOvers: number
+): MatchPhase[] {
+  const powerplayEnd = Math.min(Math.max(powerplayOvers, 0), totalOvers);
+  const deathStart = Math.max(totalOvers - Math.max(deathOvers, 0) + 1, powerplayEnd + 1);
+
+  const phases: MatchPhase[] = [];
+  if (powerplayEnd >= 1) {
+    phases.push({ name: "powerplay", start_over: 1, end_over: powerplayEnd });
+  }
+  if (deathStart - 1 > powerplayEnd) {
+    phases.push({ name: "middle", start_over: powerplayEnd + 1, end_over: deathStart - 1 });
+  }
+  if (deathStart <= totalOvers) {
+    phases.push({ name: "death", start_over: deathStart, end_over: totalOvers });
+  }
+  return phases;
+}
+
+/**
+ * Overs in the named phase of the config (0 when it has none), so the
+ * phases can be rebuilt for a different number of overs.
+ */
+export const getPhaseOvers = (
+  config: Pick<MatchConfig, "phases">,
+  name: MatchPhaseName
+): number =>
+  (config.phases ?? [])
+    .filter((phase) => phase.name === name)
+    .reduce((total, phase) => total + phase.end_over - phase.start_over + 1, 0);
+
+/**
+ * Phase an over belongs to, or null when it is outside every phase.
+ *
+ * @param overIndex - Completed overs before the ball (0-based over number)
+ */
+export const getPhaseForOver = (
+  config: Pick<MatchConfig, "phases">,
+  overIndex: number
+): MatchPhase | null =>
+  (config.phases ?? []).find(
+    (phase) => overIndex + 1 >= phase.start_over && overIndex + 1 <= phase.end_over
+  ) ?? null;
+
+/**
+ * Phase of the over currently being bowled.
+ */
+export const getCurrentPhase = (
+  config: Pick<MatchConfig, "phases">,
+  score: Pick<Score, "overs">
+): MatchPhase | null => getPhaseForOver(config, score.overs);
+
+/**
+ * Summarize Phases
+ *
+ * Adds up each phase of an innings from its ledger. Penalty runs awarded to
+ * the fielding side belong to its own innings and are left out; a retired
+ * hurt batter is not a wicket, and in pairs cricket each dismissal takes its
+ * runs off the phase it fell in.
+ *
+ * @param config - Match config holding the phases (and the pairs format)
+ * @param balls - Ledger entries of one innings
+ * @returns One summary per configured phase, in order
+ */
+export function summarizePhases(
+  config: Pick<MatchConfig, "phases" | "pairs">,
+  balls: BallEvent[]
+): PhaseSummary[] {
+  const summaries: PhaseSummary[] = (config.phases ?? []).map((phase) => ({
+    ...phase,
+    runs: 0,
+    wickets: 0,
+    balls: 0,
+  }));
+
+  balls.forEach((ball) => {
+    const phase = getPhaseForOver(config, ball.pre_ball_state.score.overs);
+    const summary = summaries.find(
+      (entry) => phase && entry.start_over === phase.start_over
+    );
+    if (!summary) return;
+
+    if (
+      isPenaltyEvent(ball.extras) &&
+      ball.penalty?.team_id !== ball.pre_ball_state.batting_team_id
+    ) {
+      return;
+    }
+
+    const input = ballEventToInput(ball);
+    summary.runs += calculateRuns(input) - getDismissalDeduction(config, input);
+    if (ball.wicket?.player_id && ball.wicket.type !== WicketType.RETIRED_HURT) {
+      summary.wickets += 1;
+    }
+    if (countsAsBall(ball)) {
+      summary.balls += 1;
+    }
+  });
+
+  return summaries;
+}
@@ -0,0 +1,186 @@
+/**
+ * House Rules
+ *
+ * Casual playing conditions described in MatchConfig.house_rules: which
+ * dismissals are in play, boundary-out ("six and out"), runs for hitting a
+ * fixed object and no wicket off the last ball of an over. Presets cover the
+ * common combinations; the scorer can adjust them.
+ */
+
+import type {
+  BallInput,
+  BoundaryOutRule,
+  HouseRules,
+  MatchConfig,
+  MatchLiveState,
+} from "@/types/cricket";
+import { WicketType } from "@/types/cricket";
+import { getBallsPerOver } from "@/lib/cricket/engine";
+
+export const BOUNDARY_OUT_LABELS: Record<BoundaryOutRule, string> = {
+  six: "Six and out",
+  four_or_six: "Any boundary is out",
+};
+
+export const WICKET_TYPE_LABELS: Record<WicketType, string> = {
+  [WicketType.BOWLED]: "Bowled",
+  [WicketType.CAUGHT]: "Caught",
+  [WicketType.LBW]: "LBW",
+  [WicketType.RUN_OUT]: "Run out",
+  [WicketType.STUMPED]: "Stumped",
+  [WicketType.HIT_WICKET]: "Hit wicket",
+  [WicketType.BOUNDARY_OUT]: "Boundary out",
+  [WicketType.RETIRED]: "Retired out",
+  [WicketType.RETIRED_HURT]: "Retired hurt",
+};
+
+// Dismissals a house rule may leave out (retiring is always possible, and
+// boundary-out has its own rule)
+export const RULE_WICKET_TYPES = [
+  WicketType.BOWLED,
+  WicketType.CAUGHT,
+  WicketType.LBW,
+  WicketType.RUN_OUT,
+  WicketType.STUMPED,
+  WicketType.HIT_WICKET,
+];
+
+export const DEFAULT_OBJECT_RUNS = 2;
+
+export interface HouseRulePreset {
+  id: string;
+  label: string;
+  rules: HouseRules;
+}
+
+export const HOUSE_RULE_PRESETS: HouseRulePreset[] = [
+  { id: "laws", label: "Standard laws", rules: {} },
+  {
+    id: "no_lbw",
+    label: "No LBW",
+    rules: {
+      allowed_wickets: RULE_WICKET_TYPES.filter((type) => type !== WicketType.LBW),
+    },
+  },
+  {
+    id: "gully",
+    label: "Gully cricket",
+    rules: {
+      allowed_wickets: [
+        WicketType.BOWLED,
+        WicketType.CAUGHT,
+        WicketType.RUN_OUT,
+        WicketType.HIT_WICKET,
+      ],
+      boundary_out: "six",
+      no_wicket_last_ball: true,
+    },
+  },
+  {
+    id: "backyard",
+    label: "Backyard",
+    rules: {
+      allowed_wickets: [WicketType.BOWLED, WicketType.CAUGHT, WicketType.RUN_OUT],
+      boundary_out: "six",
+      object_runs: DEFAULT_OBJECT_RUNS,
+    },
+  },
+];
+
+/**
+ * The preset the given rules match, if any (compared by the rules they put
+ * in force, so key order does not matter).
+ */
+export const findHouseRulePreset = (
+  rules?: HouseRules
+): HouseRulePreset | undefined => {
+  const labels = describeHouseRules(rules).join("|");
+  return HOUSE_RULE_PRESETS.find(
+    (preset) => describeHouseRules(preset.rules).join("|") === labels
+  );
+};
+
+/**
+ * Whether any house rule is in force.
+ */
+export const hasHouseRules = (rules?: HouseRules): rules is HouseRules =>
+  !!rules && describeHouseRules(rules).length > 0;
+
+/**
+ * Short labels for the house rules in force, for the scoreboard.
+ */
+export function describeHouseRules(rules?: HouseRules): string[] {
+  if (!rules) return [];
+  const labels: string[] = [];
+
+  const excluded = rules.allowed_wickets
+    ? RULE_WICKET_TYPES.filter((type) => !rules.allowed_wickets!.includes(type))
+    : [];
+  if (excluded.length > 0) {
+    labels.push(`No ${excluded.map((type) => WICKET_TYPE_LABELS[type]).join(", ")}`);
+  }
+  if (rules.boundary_out) {
+    labels.push(BOUNDARY_OUT_LABELS[rules.boundary_out]);
+  }
+  if (rules.object_runs != null) {
+    labels.push(`Hit the object: ${rules.object_runs} run${rules.object_runs === 1 ? "" : "s"}`);
+  }
+  if (rules.no_wicket_last_ball) {
+    labels.push("No wicket off the last ball");
+  }
+  return labels;
+}
+
+/**
+ * Apply House Rules
+ *
+ * Turns what the scorer entered into the ball the house rules make of it:
+ * hitting the fixed object scores the object runs, and a boundary under a
+ * boundary-out rule scores nothing and dismisses the striker. The boundary
+ * counts as usual when no wicket can fall: on a free hit, or off the last
+ * ball of an over when that ball cannot take a wicket.
+ *
+ * @param state - Live state before the ball
+ * @param config - Match config with the house rules in force, if any
+ * @param ballInput - Ball as entered
+ * @returns The ball to validate and record
+ */
+export function applyHouseRules(
+  state: Pick<MatchLiveState, "striker_id" | "is_free_hit" | "score">,
+  config: Pick<MatchConfig, "house_rules" | "balls_per_over">,
+  ballInput: BallInput
+): BallInput {
+  const rules = config.house_rules;
+  const { hit_object, boundary, ...ball } = ballInput;
+
+  if (hit_object) {
+    if (rules?.object_runs == null) {
+      throw new Error("Hitting the object only scores when a house rule sets its runs.");
+    }
+    return { ...ball, runs_off_bat: rules.object_runs };
+  }
+
+  const boundaries = rules?.boundary_out === "four_or_six" ? [4, 6] : [6];
+  if (
+    rules?.boundary_out &&
+    boundary &&
+    boundaries.includes(ball.runs_off_bat) &&
+    !ball.extras &&
+    !ball.wicket &&
+    !state.is_free_hit &&
+    !(rules.no_wicket_last_ball && state.score.balls === getBallsPerOver(config) - 1) &&
+    state.striker_id
+  ) {
+    return {
+      ...ball,
+      runs_off_bat: 0,
+      wicket: {
+        type: WicketType.BOUNDARY_OUT,
+        player_id: state.striker_id,
+        is_striker_out: true,
+      },
+    };
+  }
+
+  return boundary ? { ...ball, boundary } : ball;
+}
@@ -0,0 +1,163 @@
+/**
+ * Revised Targets
+ *
+ * Works out the second-innings target after overs are lost to an
+ * interruption. Each method is a plain calculator in TARGET_METHODS, so a
+ * new method only needs a new entry there.
+ */
+
+import type {
+  Match,
+  MatchConfig,
+  MatchLiveState,
+  OversRevision,
+  TargetMethod,
+} from "@/types/cricket";
+import { getBallsPerOver, getLegalBalls } from "@/lib/cricket/engine";
+import { getResourcesRemaining } from "@/lib/cricket/resources";
+
+// Average first-innings score of a full 50-over innings, used when the side
+// chasing has more resources than the side that set the total
+export const G50 = 245;
+
+export const TARGET_METHOD_LABELS: Record<TargetMethod, string> = {
+  average_run_rate: "Average run rate",
+  resource_table: "DLS-style resource table",
+};
+
+export const TARGET_METHOD_SHORT_LABELS: Record<TargetMethod, string> = {
+  average_run_rate: "ARR",
+  resource_table: "DLS",
+};
+
+export interface TargetContext {
+  firstInningsRuns: number; // Runs the side batting first finished on
+  firstInningsOvers: number; // Overs the side batting first was allotted
+  secondInningsOvers: number; // Overs the chasing side is allotted now
+  firstInningsResources: number; // Resources (%) the side batting first had
+  secondInningsResources: number; // Resources (%) the chasing side has
+}
+
+type TargetCalculator = (context: TargetContext) => number;
+
+export const TARGET_METHODS: Record<TargetMethod, TargetCalculator> = {
+  // Scale the first-innings score by the overs each side had
+  average_run_rate: ({ firstInningsRuns, firstInningsOvers, secondInningsOvers }) =>
+    Math.floor((firstInningsRuns * secondInningsOvers) / firstInningsOvers) + 1,
+
+  // Scale by resources when the chase has fewer; add a share of G50 when
+  // it has more
+  resource_table: ({
+    firstInningsRuns,
+    firstInningsResources,
+    secondInningsResources,
+  }) =>
+    secondInningsResources <= firstInningsResources
+      ? Math.floor(
+          (firstInningsRuns * secondInningsResources) / firstInningsResources
+        ) + 1
+      : Math.floor(
+          firstInningsRuns +
+            (G50 * (secondInningsResources - firstInningsResources)) / 100
+        ) + 1,
+};
+
+/**
+ * Innings Resources
+ *
+ * Resources (%) an innings had: what its allotted overs offer at the start,
+ * less what each cut took away at the point play stopped.
+ *
+ * @param startOvers - Overs allotted when the innings began
+ * @param cuts - Revisions made during the innings, oldest first
+ * @param ballsPerOver - Legal balls per over
+ */
+export function getInningsResources(
+  startOvers: number,
+  cuts: OversRevision[],
+  ballsPerOver: number
+): number {
+  return cuts.reduce((resources, cut) => {
+    const oversBowled = cut.balls_bowled / ballsPerOver;
+    const lost =
+      getResourcesRemaining(cut.previous_overs - oversBowled, cut.wickets_lost) -
+      getResourcesRemaining(cut.new_overs - oversBowled, cut.wickets_lost);
+    return resources - lost;
+  }, getResourcesRemaining(startOvers, 0));
+}
+
+/**
+ * State of the innings a cut made now applies to. Once the first innings
+ * has closed the cut is for the chase, made before its first ball.
+ */
+export const getCutState = (state: MatchLiveState): MatchLiveState =>
+  state.innings_closed && (state.current_innings ?? 1) === 1
+    ? {
+        ...state,
+        current_innings: 2,
+        score: { runs: 0, wickets: 0, overs: 0, balls: 0 },
+      }
+    : state;
+
+/**
+ * Build Overs Revision
+ *
+ * Records a cut to newOvers at the current point of the innings in play.
+ * The target is left for the caller to fill in.
+ */
+export function buildOversRevision(
+  state: MatchLiveState,
+  config: MatchConfig,
+  newOvers: number,
+  method: TargetMethod,
+  reason?: string
+): OversRevision {
+  return {
+    innings: state.current_innings ?? 1,
+    previous_overs: config.total_overs,
+    new_overs: newOvers,
+    balls_bowled: getLegalBalls(state.score, getBallsPerOver(config)),
+    wickets_lost: state.score.wickets,
+    method,
+    ...(reason?.trim() ? { reason: reason.trim() } : {}),
+    revised_at: Date.now(),
+  };
+}
+
+/**
+ * Calculate Revised Target
+ *
+ * @param match - Config (overs now allotted) and revision history
+ * @param firstInningsRuns - Runs the side batting first finished on
+ * @param method - Method to use
+ * @returns Runs the chasing side needs to win
+ */
+export function calculateRevisedTarget(
+  match: Pick<Match, "config" | "revisions">,
+  firstInningsRuns: number,
+  method: TargetMethod
+): number {
+  const revisions = match.revisions ?? [];
+  const ballsPerOver = getBallsPerOver(match.config);
+  const initialOvers = revisions[0]?.previous_overs ?? match.config.total_overs;
+  const firstInningsCuts = revisions.filter((revision) => revision.innings === 1);
+  const secondInningsCuts = revisions.filter((revision) => revision.innings === 2);
+  const firstInningsOvers =
+    firstInningsCuts[firstInningsCuts.length - 1]?.new_overs ?? initialOvers;
+
+  return TARGET_METHODS[method]({
+    firstInningsRuns,
+    firstInningsOvers,
+    secondInningsOvers: match.config.total_overs,
+    firstInningsResources: getInningsResources(
+      initialOvers,
+      firstInningsCuts,
+      ballsPerOver
+    ),
+    secondInningsResources: getInningsResources(
+      firstInningsOvers,
+      secondInningsCuts,
+      ballsPerOver
+    ),
+  });
+}
@@ -23,21 +23,55 @@ import {
   serverTimestamp,
   arrayUnion,
   deleteField,
+  writeBatch,
 } from "firebase/firestore";
 import { db } from "@/lib/firebase/config";
 import { auth } from "@/lib/firebase/config";
 import type {
   Player,
   Match,
+  MatchConfig,
   MatchLiveState,
   Score,
   Team,
   CreateMatchInput,
   TossInput,
   OpeningPlayersInput,
+  OverFormat,
+  InterruptionInput,
+  SuperOverState,
+  TargetMethod,
+  TeamId,
   TossResult,
 } from "@/types/cricket";
 import { MatchStatus } from "@/types/cricket";
+import {
+  buildInningsRecord,
+  evaluateResult,
+  getBallsPerOver,
+  getExtrasBreakdown,
+  getFirstInningsRuns,
+  getInningsCloseReason,
+  getLegalBalls,
+  withInningsClosure,
+} from "@/lib/cricket/engine";
+import {
+  DEFAULT_FOLLOW_ON_MARGIN,
+  buildInningsSummary,
+  canEnforceFollowOn,
+  getInningsPerSide,
+  getSideRuns,
+  isFinalInnings,
+} from "@/lib/cricket/innings";
+import { isPairsMatch } from "@/lib/cricket/pairs";
+import { buildPhases, getPhaseOvers } from "@/lib/cricket/phases";
+import { BOUNDARY_OUT_LABELS, RULE_WICKET_TYPES } from "@/lib/cricket/rules";
+import {
+  buildOversRevision,
+  calculateRevisedTarget,
+  getCutState,
+} from "@/lib/cricket/targets";
+import { getInningsId, getSuperOverInningsId } from "@/lib/firebase/scoring";
 
 // ============================================================================
 // COLLECTION REFERENCES
@@ -45,6 +79,8 @@ import { MatchStatus } from "@/types/cricket";
 
 const playersCollection = () => collection(db, "players");
 const matchesCollection = () => collection(db, "matches");
+const inningsDoc = (matchId: string, inningsId: string) =>
+  doc(db, "matches", matchId, "innings", inningsId);
 
 const ensureAuthenticatedUser = () => {
   const currentUser = auth.currentUser;
@@ -54,6 +90,89 @@ const ensureAuthenticatedUser = () => {
   return currentUser;
 };
 
+const assertOverFormat = (format: OverFormat) => {
+  const ballsPerOver = getBallsPerOver(format);
+  if (!Number.isInteger(ballsPerOver) || ballsPerOver < 1 || ballsPerOver > 10) {
+    throw new Error("Balls per over must be between 1 and 10");
+  }
+  if (format.ten_from_one_end && ballsPerOver !== 5) {
+    throw new Error("10 from one end is only available with 5-ball sets");
+  }
+};
+
+const assertBowlerQuota = (config: MatchConfig) => {
+  const quota = config.max_overs_per_bowler;
+  if (
+    quota != null &&
+    (!Number.isInteger(quota) || quota < 1 || quota > config.total_overs)
+  ) {
+    throw new Error("Max overs per bowler must be a whole number between 1 and the overs per innings");
+  }
+};
+
+const assertInningsFormat = (config: MatchConfig) => {
+  if (![undefined, 1, 2].includes(config.innings_per_side)) {
+    throw new Error("Innings per side must be 1 or 2");
+  }
+  const margin = config.follow_on_margin;
+  if (margin != null && (!Number.isInteger(margin) || margin < 1)) {
+    throw new Error("Follow-on margin must be a whole number of at least 1");
+  }
+};
+
+const assertPairsFormat = (config: MatchConfig) => {
+  if (!config.pairs) return;
+  const { overs_per_pair, dismissal_runs } = config.pairs;
+  if (
+    !Number.isInteger(overs_per_pair) ||
+    overs_per_pair < 1 ||
+    overs_per_pair > config.total_overs
+  ) {
+    throw new Error("Overs per pair must be a whole number between 1 and the overs per innings");
+  }
+  if (!Number.isInteger(dismissal_runs) || dismissal_runs < 0) {
+    throw new Error("Runs per dismissal must be a whole number of at least 0");
+  }
+  if (config.last_man_stands || getInningsPerSide(config) > 1) {
+    throw new Error("Pairs cricket can only be played as a one-innings match without last man stands");
+  }
+};
+
+const assertHouseRules = (config: MatchConfig) => {
+  const rules = config.house_rules;
+  if (!rules) return;
+  if (
+    rules.allowed_wickets &&
+    (rules.allowed_wickets.length === 0 ||
+      rules.allowed_wickets.some((type) => !RULE_WICKET_TYPES.includes(type)))
+  ) {
+    throw new Error("House rules must allow at least one of bowled, caught, LBW, run out, stumped or hit wicket");
+  }
+  if (rules.boundary_out && !(rules.boundary_out in BOUNDARY_OUT_LABELS)) {
+    throw new Error("Boundary-out rule must be six or four-or-six");
+  }
+  if (
+    rules.object_runs != null &&
+    (!Number.isInteger(rules.object_runs) || rules.object_runs < 1)
+  ) {
+    throw new Error("Runs for hitting the object must be a whole number of at least 1");
+  }
+};
+
+const assertPhases = (config: MatchConfig) => {
+  let previousEnd = 0;
+  (config.phases ?? []).forEach((phase) => {
+    if (
+      phase.start_over <= previousEnd ||
+      phase.end_over < phase.start_over ||
+      phase.end_over > config.total_overs
+    ) {
+      throw new Error("Phases must be in order, must not overlap and must fit in the innings");
+    }
+    previousEnd = phase.end_over;
+  });
+};
+
 const userHasMatchAccess = (match: Match, uid: string): boolean =>
   match.owner_id === uid ||
   (match.authorized_user_ids?.includes(uid) ?? false);
@@ -232,6 +351,13 @@ export async function getActiveMatch(userId?: string): Promise<Match | null> {
  * @returns The newly created match ID
  */
 export async function createMatch(data: CreateMatchInput): Promise<string> {
+  assertOverFormat(data.config);
+  assertBowlerQuota(data.config);
+  assertPhases(data.config);
+  assertInningsFormat(data.config);
+  assertPairsFormat(data.config);
+  assertHouseRules(data.config);
+
   try {
     const currentUser = ensureAuthenticatedUser();
     const activeMatch = await getActiveMatch(currentUser.uid);
@@ -600,15 +726,29 @@ export async function startMatch(
       throw new Error("Both teams must have players selected before starting");
     }
 
-    // Update match document
-    await updateDoc(matchRef, {
+    const inningsId = "1";
+    const liveState: MatchLiveState = {
+      ...matchData.live_state,
+      ...openers,
+      current_innings: 1,
+    };
+
+    // Update match document and open the first innings
+    const batch = writeBatch(db);
+    batch.update(matchRef, {
       status: MatchStatus.LIVE,
       "live_state.striker_id": openers.striker_id,
       "live_state.non_striker_id": openers.non_striker_id,
       "live_state.bowler_id": openers.bowler_id,
       "live_state.this_over": [], // Initialize empty over array
+      current_innings_id: inningsId,
       updated_at: serverTimestamp(),
     });
+    batch.set(
+      inningsDoc(matchId, inningsId),
+      buildInningsRecord(liveState, { ...matchData, id: matchId }, inningsId)
+    );
+    await batch.commit();
   } catch (error: unknown) {
     console.error("Error starting match:", error);
     if (
@@ -624,14 +764,21 @@ export async function startMatch(
 }
 
 /**
- * Switch to Second Innings
- * 
- * Swaps batting and bowling teams, resets score, and prepares for second innings.
- * Requires selecting new opening players.
+ * Switch Innings
+ *
+ * Closes the innings in play, records its summary and starts the next one:
+ * the teams swap (unless the follow-on is enforced), the score resets, and
+ * the new opening players come in. When the next innings is the last, the
+ * side batting gets a target from both sides' totals so far.
+ *
+ * @param matchId - The match document ID
+ * @param openers - Opening batters and bowler for the next innings
+ * @param options - enforceFollowOn: the side batting second bats again
  */
-export async function switchToSecondInnings(
+export async function switchInnings(
   matchId: string,
-  openers: OpeningPlayersInput
+  openers: OpeningPlayersInput,
+  options: { enforceFollowOn?: boolean } = {}
 ): Promise<void> {
   try {
     const { matchRef, matchData } = await loadMatchForUpdate(matchId);
@@ -641,21 +788,87 @@ export async function switchToSecondInnings(
       throw new Error("Match must be live to switch innings");
     }
 
+    const liveState = matchData.live_state;
+    if (isFinalInnings(liveState, matchData.config)) {
+      throw new Error("The last innings of the match must be completed, not switched");
+    }
+
+    // Only a closed innings can be switched (matches scored before innings
+    // were marked closed are checked from their state)
+    const match = { ...matchData, id: matchId };
+    const closeReason =
+      liveState.innings_closed ?? getInningsCloseReason(liveState, match);
+    if (!closeReason) {
+      throw new Error(
+        "The innings can only be switched once it has closed: its overs bowled, all out or declared"
+      );
+    }
+
+    const currentInnings = liveState.current_innings ?? 1;
+    const nextInnings = currentInnings + 1;
+    const superOver = liveState.super_over ? matchData.super_over : undefined;
+    const isLastInnings = isFinalInnings(
+      { ...liveState, current_innings: nextInnings },
+      matchData.config
+    );
+
+    if (
+      options.enforceFollowOn &&
+      !canEnforceFollowOn(matchData.config, matchData.innings_summaries, liveState)
+    ) {
+      throw new Error(
+        `The follow-on can only be enforced after the second innings, with a lead of at least ${
+          matchData.config.follow_on_margin ?? DEFAULT_FOLLOW_ON_MARGIN
+        } runs`
+      );
+    }
+
+    // Super overs are not part of the match's innings: their scorecards are
+    // kept with the super over
+    const inningsSummaries = superOver
+      ? matchData.innings_summaries
+      : [...(matchData.innings_summaries ?? []), buildInningsSummary(liveState)];
+    const superOverSummaries = superOver
+      ? [
+          ...(superOver.innings_summaries ?? []),
+          { ...buildInningsSummary(liveState), super_over: superOver.number },
+        ]
+      : undefined;
+
     // Get current batting and bowling teams
-    const currentBattingTeam = matchData.live_state.batting_team_id;
-    const currentBowlingTeam = matchData.live_state.bowling_team_id;
-    
-    // Store first innings total before resetting score
-    const firstInningsTotal = matchData.live_state.score.runs;
-    const firstBattingTeam = matchData.live_state.first_batting_team_id ?? currentBattingTeam;
+    const currentBattingTeam = liveState.batting_team_id as TeamId;
+    const currentBowlingTeam = liveState.bowling_team_id as TeamId;
 
-    // Swap teams for second innings
-    const newBattingTeam = currentBowlingTeam;
-    const newBowlingTeam = currentBattingTeam;
+    // Store first innings total before resetting score
+    const firstInningsTotal = liveState.score.runs;
+    // Penalty runs awarded to the side that was fielding open its innings
+    const openingPenaltyRuns = liveState.fielding_penalty_runs ?? 0;
+
+    // Swap teams for the next innings, unless the side that just batted follows on
+    const newBattingTeam = options.enforceFollowOn ? currentBattingTeam : currentBowlingTeam;
+    const newBowlingTeam = options.enforceFollowOn ? currentBowlingTeam : currentBattingTeam;
+
+    // The last innings chases both sides' runs so far; a one-innings match
+    // chases the first innings total
+    const runsToPass =
+      getInningsPerSide(matchData.config) > 1 && !superOver
+        ? getSideRuns(inningsSummaries, newBowlingTeam) -
+          getSideRuns(inningsSummaries, newBattingTeam)
+        : firstInningsTotal;
+
+    // Overs lost in the first innings revise the target before the chase
+    // (a super over keeps its full over)
+    const latestRevision = matchData.revisions?.[matchData.revisions.length - 1];
+    const calculatedTarget =
+      latestRevision && !superOver && getInningsPerSide(matchData.config) === 1
+        ? calculateRevisedTarget(matchData, firstInningsTotal, latestRevision.method)
+        : null;
+    const revisedTarget =
+      calculatedTarget !== firstInningsTotal + 1 ? calculatedTarget : null;
 
     // Validate opening players are from correct teams
-    const newBattingTeamData = matchData.teams[newBattingTeam as "a" | "b"];
-    const newBowlingTeamData = matchData.teams[newBowlingTeam as "a" | "b"];
+    const newBattingTeamData = matchData.teams[newBattingTeam];
+    const newBowlingTeamData = matchData.teams[newBowlingTeam];
 
     if (
       !newBattingTeamData.players.some((p) => p.id === openers.striker_id) ||
@@ -668,38 +881,103 @@ export async function switchToSecondInnings(
       throw new Error("Bowler must be from the bowling team");
     }
 
-    // Update match document for second innings
-    await updateDoc(matchRef, {
+    // Close the innings in play and open the next one alongside the match
+    const currentInningsId = getInningsId(matchData);
+    const nextInningsId = superOver
+      ? getSuperOverInningsId(superOver.number, nextInnings)
+      : String(nextInnings);
+    const nextExtras = { ...getExtrasBreakdown({}), penalties: openingPenaltyRuns };
+    const nextInningsState: MatchLiveState = {
+      ...liveState,
+      ...openers,
+      batting_team_id: newBattingTeam,
+      bowling_team_id: newBowlingTeam,
+      score: { runs: openingPenaltyRuns, wickets: 0, overs: 0, balls: 0 },
+      extras: nextExtras,
+      current_innings: nextInnings,
+      first_innings_total: isLastInnings ? runsToPass : undefined,
+      fielding_penalty_runs: undefined,
+      declared: undefined,
+      innings_closed: undefined,
+      follow_on: options.enforceFollowOn,
+    };
+
+    const batch = writeBatch(db);
+    batch.set(
+      inningsDoc(matchId, currentInningsId),
+      buildInningsRecord(liveState, match, currentInningsId, closeReason)
+    );
+    batch.set(
+      inningsDoc(matchId, nextInningsId),
+      buildInningsRecord(
+        nextInningsState,
+        { ...match, revised_target: revisedTarget ?? matchData.revised_target },
+        nextInningsId
+      )
+    );
+
+    // Update match document for the next innings
+    batch.update(matchRef, {
       "live_state.batting_team_id": newBattingTeam,
       "live_state.bowling_team_id": newBowlingTeam,
       "live_state.striker_id": openers.striker_id,
       "live_state.non_striker_id": openers.non_striker_id,
       "live_state.bowler_id": openers.bowler_id,
-      "live_state.score.runs": 0,
+      "live_state.score.runs": openingPenaltyRuns,
       "live_state.score.wickets": 0,
       "live_state.score.overs": 0,
       "live_state.score.balls": 0,
-      "live_state.first_innings_total": firstInningsTotal, // Store first innings total for RRR calculation
-      "live_state.current_innings": 2,
-      "live_state.first_batting_team_id": firstBattingTeam,
-      "live_state.second_batting_team_id": newBattingTeam,
+      // Runs to pass for the target and RRR, set for the last innings only
+      "live_state.first_innings_total": isLastInnings ? runsToPass : deleteField(),
+      "live_state.current_innings": nextInnings,
+      ...(isLastInnings
+        ? {
+            "live_state.first_batting_team_id": newBowlingTeam,
+            "live_state.second_batting_team_id": newBattingTeam,
+          }
+        : {}),
       "live_state.player_stats": {
         batters: {},
         bowlers: {},
       },
       "live_state.dismissed_batter_ids": [],
+      "live_state.fall_of_wickets": [],
+      "live_state.retired_hurt_ids": [],
       "live_state.this_over": [],
       "live_state.is_free_hit": false,
+      "live_state.extras": nextExtras,
+      "live_state.opening_penalty_runs": openingPenaltyRuns,
+      "live_state.fielding_penalty_runs": deleteField(),
       "live_state.last_bowler_id": deleteField(),
+      "live_state.over_tally": deleteField(),
+      "live_state.pair_scores": deleteField(),
+      "live_state.declared": deleteField(),
+      "live_state.innings_closed": deleteField(),
+      "live_state.follow_on": options.enforceFollowOn ? true : deleteField(),
+      ...(inningsSummaries ? { innings_summaries: inningsSummaries } : {}),
+      ...(revisedTarget != null ? { revised_target: revisedTarget } : {}),
+      ...(superOver
+        ? {
+            "super_over.first_innings": {
+              team_id: currentBattingTeam,
+              runs: firstInningsTotal,
+              wickets: liveState.score.wickets,
+            },
+            "super_over.innings_summaries": superOverSummaries,
+          }
+        : {}),
+      current_innings_id: nextInningsId,
       updated_at: serverTimestamp(),
     });
+    await batch.commit();
   } catch (error: unknown) {
     console.error("Error switching innings:", error);
     if (
       error instanceof Error &&
       (error.message.includes("not found") ||
         error.message.includes("must be") ||
-        error.message.includes("must have"))
+        error.message.includes("must have") ||
+        error.message.includes("can only"))
     ) {
       throw error;
     }
@@ -707,17 +985,366 @@ export async function switchToSecondInnings(
   }
 }
 
+/**
+ * Switch to Second Innings
+ *
+ * Shorthand for switchInnings without the follow-on.
+ */
+export async function switchToSecondInnings(
+  matchId: string,
+  openers: OpeningPlayersInput
+): Promise<void> {
+  return switchInnings(matchId, openers);
+}
+
+/**
+ * Declare Innings
+ *
+ * The batting side closes its innings before it is bowled out. Only
+ * matches where each side bats twice allow declarations, and not in the
+ * last innings. If the declaration leaves the side still behind after its
+ * second innings, the match is lost by an innings.
+ *
+ * @param matchId - The match document ID
+ */
+export async function declareInnings(matchId: string): Promise<void> {
+  try {
+    const { matchRef, matchData } = await loadMatchForUpdate(matchId);
+
+    if (matchData.status !== MatchStatus.LIVE) {
+      throw new Error("Match must be live to declare");
+    }
+    if (
+      getInningsPerSide(matchData.config) < 2 ||
+      matchData.live_state.super_over ||
+      isFinalInnings(matchData.live_state, matchData.config)
+    ) {
+      throw new Error("Declarations can only be made before the last innings of a two-innings match");
+    }
+    if (matchData.live_state.declared) {
+      throw new Error("This innings has already been declared");
+    }
+
+    const liveState: MatchLiveState = {
+      ...matchData.live_state,
+      declared: true,
+      innings_closed: "declared",
+    };
+    const match = { ...matchData, id: matchId };
+    const result = evaluateResult(liveState, match);
+    const inningsId = getInningsId(matchData);
+
+    const batch = writeBatch(db);
+    batch.update(matchRef, {
+      "live_state.declared": true,
+      "live_state.innings_closed": "declared",
+      ...(result ? { status: MatchStatus.COMPLETED, result } : {}),
+      updated_at: serverTimestamp(),
+    });
+    batch.set(
+      inningsDoc(matchId, inningsId),
+      buildInningsRecord(liveState, match, inningsId)
+    );
+    await batch.commit();
+  } catch (error: unknown) {
+    console.error("Error declaring innings:", error);
+    if (
+      error instanceof Error &&
+      (error.message.includes("not found") ||
+        error.message.includes("must be") ||
+        error.message.includes("can only") ||
+        error.message.includes("already"))
+    ) {
+      throw error;
+    }
+    throw new Error("Failed to declare innings. Please try again.");
+  }
+}
+
+/**
+ * Start Super Over
+ *
+ * Settles a tied match with a super over: one over a side, three batters
+ * (two wickets). The side that batted second bats first, then the innings
+ * switch as usual. Balls go to ledgers of their own, so the tied match
+ * stays as it was. A tied super over can be followed by another one, with
+ * the batting order reversed again.
+ *
+ * @param matchId - The match document ID
+ * @param openers - Opening batters and bowler for the super over
+ */
+export async function startSuperOver(
+  matchId: string,
+  openers: OpeningPlayersInput
+): Promise<void> {
+  try {
+    const { matchRef, matchData } = await loadMatchForUpdate(matchId);
+
+    if (
+      matchData.status !== MatchStatus.COMPLETED ||
+      matchData.result?.type !== "tie"
+    ) {
+      throw new Error("Match must be tied to go to a super over");
+    }
+    if (getInningsPerSide(matchData.config) > 1) {
+      throw new Error("Super overs can only settle one-innings matches");
+    }
+    if (isPairsMatch(matchData.config)) {
+      throw new Error("Super overs can only settle matches not played in pairs");
+    }
+
+    // Whoever batted last (chased in the match or the last super over) bats first
+    const liveState = matchData.live_state;
+    const battingTeamId = (liveState.second_batting_team_id ??
+      liveState.batting_team_id) as TeamId;
+    const bowlingTeamId: TeamId = battingTeamId === "a" ? "b" : "a";
+
+    if (
+      !matchData.teams[battingTeamId].players.some((p) => p.id === openers.striker_id) ||
+      !matchData.teams[battingTeamId].players.some((p) => p.id === openers.non_striker_id)
+    ) {
+      throw new Error("Striker and non-striker must be from the batting team");
+    }
+    if (openers.striker_id === openers.non_striker_id) {
+      throw new Error("Striker and non-striker must be different players");
+    }
+    if (!matchData.teams[bowlingTeamId].players.some((p) => p.id === openers.bowler_id)) {
+      throw new Error("Bowler must be from the bowling team");
+    }
+
+    // A further super over replaces the live state of the last one's second
+    // innings, so that scorecard is kept with the super over's others
+    const previousSuperOver = matchData.super_over;
+    const superOver: SuperOverState = {
+      number: (previousSuperOver?.number ?? 0) + 1,
+      tied_result: previousSuperOver?.tied_result ?? matchData.result,
+      completed: matchData.result.super_overs ?? [],
+      ...(previousSuperOver
+        ? {
+            innings_summaries: [
+              ...(previousSuperOver.innings_summaries ?? []),
+              { ...buildInningsSummary(liveState), super_over: previousSuperOver.number },
+            ],
+          }
+        : {}),
+    };
+
+    const superOverState: MatchLiveState = {
+      batting_team_id: battingTeamId,
+      bowling_team_id: bowlingTeamId,
+      striker_id: openers.striker_id,
+      non_striker_id: openers.non_striker_id,
+      bowler_id: openers.bowler_id,
+      score: { runs: 0, wickets: 0, overs: 0, balls: 0 },
+      this_over: [],
+      player_stats: { batters: {}, bowlers: {} },
+      is_free_hit: false,
+      current_innings: 1,
+      first_batting_team_id: battingTeamId,
+      second_batting_team_id: bowlingTeamId,
+      dismissed_batter_ids: [],
+      retired_hurt_ids: [],
+      super_over: superOver.number,
+    };
+
+    const inningsId = getSuperOverInningsId(superOver.number, 1);
+    // The first super over replaces the live state of the match's last
+    // innings, so its scorecard is kept with the others
+    const inningsSummaries = matchData.super_over
+      ? matchData.innings_summaries
+      : [...(matchData.innings_summaries ?? []), buildInningsSummary(liveState)];
+
+    const batch = writeBatch(db);
+    batch.update(matchRef, {
+      status: MatchStatus.LIVE,
+      live_state: superOverState,
+      super_over: superOver,
+      result: deleteField(),
+      current_innings_id: inningsId,
+      ...(inningsSummaries ? { innings_summaries: inningsSummaries } : {}),
+      updated_at: serverTimestamp(),
+    });
+    batch.set(
+      inningsDoc(matchId, inningsId),
+      buildInningsRecord(superOverState, { ...matchData, id: matchId }, inningsId)
+    );
+    await batch.commit();
+  } catch (error: unknown) {
+    console.error("Error starting super over:", error);
+    if (
+      error instanceof Error &&
+      (error.message.includes("not found") ||
+        error.message.includes("must be") ||
+        error.message.includes("can only"))
+    ) {
+      throw error;
+    }
+    throw new Error("Failed to start super over. Please try again.");
+  }
+}
+
+/**
+ * Interrupt Match
+ *
+ * Cuts the overs per innings after play is lost (e.g. to rain). The new
+ * overs apply to the innings in progress and any innings still to come.
+ * During the second innings the target is revised with the chosen method
+ * (a cut in the first innings is accounted for when the chase begins).
+ * A cut made once the first innings has closed is for the chase alone, so
+ * the target is revised straight away. The phases are rebuilt for the new
+ * overs, and a pairs match cannot be cut below the overs each pair bats.
+ * Every cut is appended to the match's revision history. If the shorter
+ * innings or the revised target already decides the chase, the match is
+ * completed.
+ *
+ * @param matchId - The match document ID
+ * @param input - New overs per innings, target method and reason
+ */
+export async function interruptMatch(
+  matchId: string,
+  input: InterruptionInput
+): Promise<void> {
+  try {
+    const { matchRef, matchData } = await loadMatchForUpdate(matchId);
+
+    if (matchData.status !== MatchStatus.LIVE) {
+      throw new Error("Overs can only be reduced in a live match");
+    }
+    if (matchData.live_state.super_over) {
+      throw new Error("Overs can only be reduced before a super over");
+    }
+    if (getInningsPerSide(matchData.config) > 1) {
+      throw new Error("Overs can only be reduced in one-innings matches");
+    }
+
+    const { new_overs: newOvers, method = "average_run_rate" } = input;
+    const previousOvers = matchData.config.total_overs;
+    if (!Number.isInteger(newOvers) || newOvers < 1 || newOvers >= previousOvers) {
+      throw new Error(`New overs must be a whole number between 1 and ${previousOvers - 1}`);
+    }
+
+    const liveState = matchData.live_state;
+    // During the interval the cut is made at the start of the chase
+    const cutState = getCutState(liveState);
+    const atInterval = cutState !== liveState;
+
+    const ballsPerOver = getBallsPerOver(matchData.config);
+    const ballsBowled = getLegalBalls(cutState.score, ballsPerOver);
+    if (newOvers * ballsPerOver < ballsBowled) {
+      throw new Error("New overs must be at least the overs already bowled in this innings");
+    }
+
+    const revision = buildOversRevision(
+      cutState,
+      matchData.config,
+      newOvers,
+      method,
+      input.reason
+    );
+    // The powerplay and death overs keep their length within the new overs
+    const config: MatchConfig = {
+      ...matchData.config,
+      total_overs: newOvers,
+      ...(matchData.config.phases
+        ? {
+            phases: buildPhases(
+              newOvers,
+              getPhaseOvers(matchData.config, "powerplay"),
+              getPhaseOvers(matchData.config, "death")
+            ),
+          }
+        : {}),
+    };
+    assertPairsFormat(config);
+    const revisions = [...(matchData.revisions ?? []), revision];
+
+    const firstInningsRuns = atInterval
+      ? liveState.score.runs
+      : getFirstInningsRuns(liveState);
+    const revisedTarget =
+      revision.innings === 2 && firstInningsRuns != null
+        ? calculateRevisedTarget({ config, revisions }, firstInningsRuns, method)
+        : null;
+    if (revisedTarget != null) {
+      revision.target = revisedTarget;
+    }
+
+    const revisedMatch = {
+      ...matchData,
+      id: matchId,
+      config,
+      revised_target: revisedTarget ?? matchData.revised_target,
+    };
+    const result =
+      revisedTarget != null && !atInterval
+        ? evaluateResult(liveState, revisedMatch)
+        : null;
+    const inningsId = getInningsId(matchData);
+    const closedState = withInningsClosure(liveState, revisedMatch);
+
+    // The innings in play picks up the revised target (and closes if that
+    // decides the chase); a closed first innings is left as it finished
+    const batch = writeBatch(db);
+    batch.update(matchRef, {
+      config,
+      revisions,
+      ...(revisedTarget != null ? { revised_target: revisedTarget } : {}),
+      ...(closedState.innings_closed && !atInterval
+        ? { "live_state.innings_closed": closedState.innings_closed }
+        : {}),
+      ...(result ? { status: MatchStatus.COMPLETED, result } : {}),
+      updated_at: serverTimestamp(),
+    });
+    if (!atInterval) {
+      batch.set(
+        inningsDoc(matchId, inningsId),
+        buildInningsRecord(closedState, revisedMatch, inningsId)
+      );
+    }
+    await batch.commit();
+  } catch (error: unknown) {
+    console.error("Error reducing overs:", error);
+    if (
+      error instanceof Error &&
+      (error.message.includes("not found") ||
+        error.message.includes("must be") ||
+        error.message.includes("can only"))
+    ) {
+      throw error;
+    }
+    throw new Error("Failed to reduce overs. Please try again.");
+  }
+}
+
+/**
+ * Reduce Overs
+ *
+ * Shorthand for interruptMatch when only the new overs (and optionally the
+ * target method) are known.
+ */
+export async function reduceOvers(
+  matchId: string,
+  newOvers: number,
+  method?: TargetMethod
+): Promise<void> {
+  return interruptMatch(matchId, { new_overs: newOvers, method });
+}
+
 /**
  * Create a rematch using the same squads as an existing match.
- * Allows changing the total overs configuration.
+ * Allows changing the total overs and the over format (kept when omitted).
  */
 export async function createRematchWithSameSquads(
   matchId: string,
-  totalOvers: number
+  totalOvers: number,
+  overFormat?: OverFormat
 ): Promise<string> {
   if (totalOvers < 1 || totalOvers > 50) {
     throw new Error("Overs must be between 1 and 50");
   }
+  if (overFormat) {
+    assertOverFormat(overFormat);
+  }
 
   const { matchData } = await loadMatchForUpdate(matchId);
 
@@ -728,6 +1355,30 @@ export async function createRematchWithSameSquads(
   const now = Date.now();
   const score: Score = { runs: 0, wickets: 0, overs: 0, balls: 0 };
 
+  const config: MatchConfig = {
+    ...matchData.config,
+    total_overs: totalOvers,
+    ...(overFormat
+      ? {
+          balls_per_over: getBallsPerOver(overFormat),
+          ten_from_one_end: !!overFormat.ten_from_one_end,
+        }
+      : {}),
+    // Keep the powerplay and death overs the same length in the new innings
+    ...(matchData.config.phases
+      ? {
+          phases: buildPhases(
+            totalOvers,
+            getPhaseOvers(matchData.config, "powerplay"),
+            getPhaseOvers(matchData.config, "death")
+          ),
+        }
+      : {}),
+  };
+  // The quota and pairs carry over, so must still fit the new overs
+  assertBowlerQuota(config);
+  assertPairsFormat(config);
+
   const newMatch: Omit<Match, "id"> = {
     owner_id: matchData.owner_id,
     authorized_user_ids:
@@ -735,10 +1386,7 @@ export async function createRematchWithSameSquads(
         ? Array.from(new Set(matchData.authorized_user_ids))
         : [matchData.owner_id],
     status: MatchStatus.SCHEDULED,
-    config: {
-      ...matchData.config,
-      total_overs: totalOvers,
-    },
+    config,
     player_pool: [
       ...matchData.teams.a.players,
       ...matchData.teams.b.players,
@@ -801,11 +1449,27 @@ export async function endMatch(matchId: string): Promise<void> {
       throw new Error("Only live matches can be ended");
     }
 
-    // Update match status to completed
-    await updateDoc(matchRef, {
+    const match = { ...matchData, id: matchId };
+    const inningsId = getInningsId(matchData);
+
+    // Update match status to completed, closing the innings in play
+    const batch = writeBatch(db);
+    batch.update(matchRef, {
       status: MatchStatus.COMPLETED,
       updated_at: serverTimestamp(),
     });
+    batch.set(
+      inningsDoc(matchId, inningsId),
+      buildInningsRecord(
+        matchData.live_state,
+        match,
+        inningsId,
+        matchData.live_state.innings_closed ??
+          getInningsCloseReason(matchData.live_state, match) ??
+          "match_ended"
+      )
+    );
+    await batch.commit();
   } catch (error: unknown) {
     console.error("Error ending match:", error);
     if (
@@ -9,43 +9,131 @@ import {
   getDoc,
   serverTimestamp,
   deleteField,
+  Timestamp,
+  type DocumentReference,
+  type Transaction,
 } from "firebase/firestore";
 import { auth, db } from "@/lib/firebase/config";
 import type {
   BallEvent,
   BallInput,
+  InningsLedgerReport,
+  InningsSummary,
+  LedgerVerificationReport,
   Match,
   MatchLiveState,
   MatchResult,
-  OverBall,
   TeamId,
+  UndoneBallEvent,
 } from "@/types/cricket";
-import { ExtraType, MatchStatus, WicketType } from "@/types/cricket";
-
-const getInningsId = (matchData: Match): string => {
-  // Determine innings based on which team is batting
-  // First innings: team that won toss and chose to bat
-  // Second innings: the other team
-  if (!matchData.toss) return "1";
-  
-  const tossWinner = matchData.toss.winner_id;
-  const tossDecision = matchData.toss.decision;
-  const currentBattingTeam = matchData.live_state.batting_team_id;
-  
-  // If toss winner chose to bat, first innings is when they bat
-  if (tossDecision === "bat") {
-    return currentBattingTeam === tossWinner ? "1" : "2";
-  } else {
-    // If toss winner chose to bowl, first innings is when the other team bats
-    return currentBattingTeam === tossWinner ? "2" : "1";
-  }
+import { ExtraType, MatchStatus } from "@/types/cricket";
+import {
+  applyBall,
+  applySelections,
+  ballEventToInput,
+  buildInningsRecord,
+  createInningsStartState,
+  deepCloneState,
+  evaluateResult,
+  getExtrasBreakdown,
+  isDeliveryEvent,
+  isPenaltyEvent,
+  toLedgerFields,
+  validateBall,
+  validateDismissal,
+  withInningsClosure,
+  type EngineMatch,
+} from "@/lib/cricket/engine";
+import {
+  getInningsPerSide,
+  getSideRuns,
+  isFinalInnings,
+} from "@/lib/cricket/innings";
+import {
+  carrySelections,
+  diffDerivedState,
+  rederiveInnings,
+  verifyInningsLedger,
+} from "@/lib/cricket/ledger";
+import { applyHouseRules } from "@/lib/cricket/rules";
+
+/**
+ * Ledger id of an innings of a super over ("so1_1", "so1_2", "so2_1", ...).
+ */
+export const getSuperOverInningsId = (superOver: number, innings: number): string =>
+  `so${superOver}_${innings}`;
+
+/**
+ * Ledger id of the innings an innings summary was frozen from.
+ */
+export const getSummaryInningsId = (summary: InningsSummary): string =>
+  summary.super_over
+    ? getSuperOverInningsId(summary.super_over, summary.innings)
+    : String(summary.innings);
+
+/**
+ * Ledger id of the innings in play: the pointer stored on the match when the
+ * innings started. Matches started before innings documents were kept fall
+ * back to the innings number.
+ */
+export const getInningsId = (matchData: Match): string =>
+  matchData.current_innings_id ??
+  getPlayedInningsIds(matchData).slice(-1)[0];
+
+/**
+ * Innings batted so far in the match, or in the super over being played,
+ * in the order they were batted.
+ */
+export const getPlayedInningsIds = (matchData: Match): string[] => {
+  const superOver = matchData.live_state.super_over;
+  const inningsPlayed = Array.from(
+    { length: matchData.live_state.current_innings ?? 1 },
+    (_, index) => index + 1
+  );
+  return inningsPlayed.map((innings) =>
+    superOver ? getSuperOverInningsId(superOver, innings) : String(innings)
+  );
 };
 
 const getBallsCollection = (matchId: string, inningsId: string) =>
   collection(db, "matches", matchId, "innings", inningsId, "balls");
 
-const deepCloneState = (state: MatchLiveState): MatchLiveState =>
-  JSON.parse(JSON.stringify(state));
+const getUndoneCollection = (matchId: string, inningsId: string) =>
+  collection(db, "matches", matchId, "innings", inningsId, "undone");
+
+const getInningsRef = (matchId: string, inningsId: string) =>
+  doc(db, "matches", matchId, "innings", inningsId);
+
+// Keeps innings/{id} in step with the live state written alongside it
+const setInningsRecord = (
+  transaction: Transaction,
+  match: EngineMatch,
+  inningsId: string,
+  state: MatchLiveState
+) =>
+  transaction.set(
+    getInningsRef(match.id, inningsId),
+    buildInningsRecord(state, match, inningsId)
+  );
+
+type LedgerEntry = {
+  ref: DocumentReference;
+  ball: BallEvent;
+};
+
+// Ledger entries of an innings in the order they were recorded
+const loadInningsLedger = async (
+  matchId: string,
+  inningsId: string
+): Promise<LedgerEntry[]> => {
+  const snapshot = await getDocs(
+    query(getBallsCollection(matchId, inningsId), orderBy("timestamp", "asc"))
+  );
+  return snapshot.docs.map((ballDoc) => ({
+    ref: ballDoc.ref,
+    ball: ballDoc.data() as BallEvent,
+  }));
+};
 
 const requireAuthenticatedUser = () => {
   const currentUser = auth.currentUser;
@@ -64,27 +152,7 @@ const assertScoringAccess = (match: Match, uid: string) => {
   }
 };
 
-export const calculateRuns = (ballInput: BallInput): number => {
-  const extrasRuns = ballInput.extras?.runs ?? 0;
-  return ballInput.runs_off_bat + extrasRuns;
-};
-
-export const isLegalDelivery = (
-  extras?: BallInput["extras"]
-): boolean => {
-  if (!extras) return true;
-  return ![ExtraType.WIDE, ExtraType.NO_BALL].includes(extras.type);
-};
-
-const wicketCountsForBowler = (type?: WicketType | null): boolean => {
-  if (!type) return false;
-  return ![WicketType.RUN_OUT, WicketType.RETIRED].includes(type);
-};
-
-const clonePlayerStats = (state: MatchLiveState["player_stats"]) => ({
-  batters: { ...(state?.batters ?? {}) },
-  bowlers: { ...(state?.bowlers ?? {}) },
-});
+export { calculateRuns, isLegalDelivery } from "@/lib/cricket/engine";
 
 export async function recordBall(
   matchId: string,
@@ -92,6 +160,14 @@ export async function recordBall(
 ): Promise<void> {
   const currentUser = requireAuthenticatedUser();
 
+  // A fresh ball invalidates anything that was undone before it
+  const currentSnap = await getDoc(doc(db, "matches", matchId));
+  const undoneSnapshot = currentSnap.exists()
+    ? await getDocs(
+        getUndoneCollection(matchId, getInningsId(currentSnap.data() as Match))
+      )
+    : null;
+
   await runTransaction(db, async (transaction) => {
     const matchRef = doc(db, "matches", matchId);
     const matchSnap = await transaction.get(matchRef);
@@ -107,286 +183,131 @@ export async function recordBall(
       throw new Error("Match is not live. Cannot record ball.");
     }
 
+    const ball = applyHouseRules(matchData.live_state, matchData.config, ballInput);
+    validateBall(matchData.live_state, matchData, ball);
+
     const inningsId = getInningsId(matchData);
-    const preBallState = deepCloneState(matchData.live_state);
-    const liveState = deepCloneState(matchData.live_state);
-    const score = { ...liveState.score };
-    const playerStats = clonePlayerStats(liveState.player_stats);
-    const battingTeamId = liveState.batting_team_id as TeamId | undefined;
-    const battingTeam =
-      battingTeamId != null ? matchData.teams[battingTeamId] : undefined;
-    const battingTeamSize = battingTeam?.players.length ?? 0;
-    const maxWicketsBeforeAllOut = Math.max(battingTeamSize - 1, 0);
-    const dismissedBatters = new Set(liveState.dismissed_batter_ids ?? []);
-    liveState.dismissed_batter_ids = Array.from(dismissedBatters);
+    const match = { ...matchData, id: matchId };
+    const {
+      state: liveState,
+      ballEvent,
+      result: matchResultPayload,
+    } = applyBall(matchData.live_state, match, ball, { inningsId });
 
-    if (
-      maxWicketsBeforeAllOut > 0 &&
-      score.wickets >= maxWicketsBeforeAllOut
-    ) {
-      throw new Error(
-        "Innings complete. All available batters have been dismissed."
-      );
-    }
+    const ballsCollection = getBallsCollection(matchId, inningsId);
+    const ballDoc = doc(ballsCollection);
 
-    const ensureBatterEligible = (batterId?: string | null, label = "Batter") => {
-      if (batterId && dismissedBatters.has(batterId)) {
-        throw new Error(`${label} has already been dismissed. Please select a new batter.`);
-      }
-    };
+    transaction.set(ballDoc, {
+      ...ballEvent,
+      timestamp: serverTimestamp(),
+    });
 
-    ensureBatterEligible(liveState.striker_id, "Striker");
-    ensureBatterEligible(liveState.non_striker_id, "Non-striker");
+    undoneSnapshot?.docs.forEach((undoneDoc) =>
+      transaction.delete(undoneDoc.ref)
+    );
 
-    // VALIDATION: Prevent recording if innings is complete (reached total overs limit)
-    const totalOvers = matchData.config?.total_overs ?? 0;
-    if (score.overs >= totalOvers) {
-      throw new Error(`Innings complete! ${totalOvers} overs have been bowled. Please switch to the next innings.`);
-    }
+    setInningsRecord(transaction, match, inningsId, liveState);
 
-    // VALIDATION: Prevent recording if over is complete AND we haven't selected a new bowler
-    // This prevents the race condition where a ball can be recorded between
-    // over completion detection and UI state update
-    // Only block if: balls === 0, overs > 0, AND current bowler is same as last bowler
-    // (meaning we're still waiting for bowler selection)
-    if (score.balls === 0 && score.overs > 0 && 
-        liveState.bowler_id && liveState.last_bowler_id &&
-        liveState.bowler_id === liveState.last_bowler_id) {
-      throw new Error("Over is complete. Please select a new bowler before recording the next ball.");
-    }
+    const updatePayload: Record<string, unknown> = {
+      live_state: liveState,
+      updated_at: serverTimestamp(),
+    };
 
-    // VALIDATION: Prevent same bowler from bowling consecutive overs
-    // This enforces cricket rules where a bowler cannot bowl two consecutive overs
-    if (liveState.bowler_id && liveState.last_bowler_id && 
-        liveState.bowler_id === liveState.last_bowler_id) {
-      throw new Error("A bowler cannot bowl consecutive overs. Please select a different bowler.");
+    if (matchResultPayload) {
+      updatePayload.status = MatchStatus.COMPLETED;
+      updatePayload.result = matchResultPayload;
     }
 
-    const totalRuns = calculateRuns(ballInput);
-    const legalDelivery = isLegalDelivery(ballInput.extras);
-
-    score.runs += totalRuns;
-
-    if (ballInput.wicket?.player_id) {
-      if (dismissedBatters.has(ballInput.wicket.player_id)) {
-        throw new Error("This batter has already been dismissed.");
-      }
-      score.wickets += 1;
-      dismissedBatters.add(ballInput.wicket.player_id);
-    }
+    transaction.update(matchRef, updatePayload);
+  });
+}
 
-    let overCompleted = false;
-    if (legalDelivery) {
-      score.balls += 1;
-      if (score.balls >= 6) {
-        score.overs += 1;
-        score.balls = 0;
-        overCompleted = true;
-        // Track the bowler who just completed the over
-        // This prevents them from bowling the next over
-        liveState.last_bowler_id = liveState.bowler_id;
-      }
-    }
+/**
+ * Award Penalty Runs
+ *
+ * Records a penalty award as a non-delivery ledger entry: no ball is
+ * consumed and the bowler is not charged. Runs for the batting side go on
+ * the current score; runs for the fielding side go on its own innings.
+ * Undo, redo and ledger edits treat the award like any other entry.
+ *
+ * @param matchId - The match document ID
+ * @param teamId - Team the runs are awarded to ('a' or 'b')
+ * @param runs - Penalty runs (usually config.penalty_runs, 5 by default)
+ * @param reason - Why the penalty was awarded
+ */
+export async function awardPenaltyRuns(
+  matchId: string,
+  teamId: TeamId,
+  runs: number,
+  reason: string
+): Promise<void> {
+  const currentUser = requireAuthenticatedUser();
 
-    const strikerId = preBallState.striker_id;
-    const bowlerId = preBallState.bowler_id;
+  if (!Number.isInteger(runs) || runs <= 0) {
+    throw new Error("Penalty runs must be a whole number greater than zero.");
+  }
+  if (!reason.trim()) {
+    throw new Error("Give a reason for the penalty.");
+  }
 
-    const incrementStrikerBall =
-      ballInput.extras?.type !== ExtraType.WIDE &&
-      ballInput.extras?.type !== ExtraType.NO_BALL;
+  // An award is a fresh ledger entry, so it clears the redo stack too
+  const currentSnap = await getDoc(doc(db, "matches", matchId));
+  const undoneSnapshot = currentSnap.exists()
+    ? await getDocs(
+        getUndoneCollection(matchId, getInningsId(currentSnap.data() as Match))
+      )
+    : null;
 
-    if (strikerId) {
-      const existingBatter = playerStats.batters[strikerId] ?? {
-        runs: 0,
-        balls: 0,
-      };
-      const batterStats = {
-        runs: existingBatter.runs + ballInput.runs_off_bat,
-        balls: existingBatter.balls + (incrementStrikerBall ? 1 : 0),
-      };
-      playerStats.batters[strikerId] = batterStats;
-    }
+  await runTransaction(db, async (transaction) => {
+    const matchRef = doc(db, "matches", matchId);
+    const matchSnap = await transaction.get(matchRef);
 
-    if (bowlerId) {
-      const existingBowler = playerStats.bowlers[bowlerId] ?? {
-        runs: 0,
-        balls: 0,
-        wickets: 0,
-      };
-      const creditedRuns =
-        ballInput.extras?.type === ExtraType.BYE ||
-        ballInput.extras?.type === ExtraType.LEG_BYE
-          ? 0
-          : totalRuns;
-      const bowlerStats = {
-        runs: existingBowler.runs + creditedRuns,
-        balls: existingBowler.balls + (legalDelivery ? 1 : 0),
-        wickets:
-          existingBowler.wickets +
-          (ballInput.wicket?.player_id &&
-          wicketCountsForBowler(ballInput.wicket.type ?? null)
-            ? 1
-            : 0),
-      };
-      playerStats.bowlers[bowlerId] = bowlerStats;
+    if (!matchSnap.exists()) {
+      throw new Error("Match not found.");
     }
 
-    liveState.score = score;
-    liveState.player_stats = playerStats;
+    const matchData = matchSnap.data() as Match;
+    assertScoringAccess(matchData, currentUser.uid);
 
-    if (ballInput.wicket?.player_id) {
-      if (ballInput.wicket.is_striker_out ?? true) {
-        liveState.striker_id = "";
-      } else {
-        liveState.non_striker_id = "";
-      }
-      liveState.dismissed_batter_ids = Array.from(dismissedBatters);
+    if (matchData.status !== MatchStatus.LIVE) {
+      throw new Error("Match is not live. Cannot award penalty runs.");
     }
 
-    const shouldRotate =
-      (ballInput.runs_off_bat % 2 === 1 || overCompleted) &&
-      liveState.striker_id &&
-      liveState.non_striker_id;
-
-    if (shouldRotate) {
-      const temp = liveState.striker_id;
-      liveState.striker_id = liveState.non_striker_id;
-      liveState.non_striker_id = temp;
+    const liveState = matchData.live_state;
+    if (![liveState.batting_team_id, liveState.bowling_team_id].includes(teamId)) {
+      throw new Error("Penalty runs must go to the batting or fielding side.");
     }
 
-    liveState.is_free_hit = ballInput.extras?.type === ExtraType.NO_BALL;
-
-    const preOvers = preBallState.score.overs;
-    const preBalls = preBallState.score.balls;
-    const illegalSuffix = legalDelivery ? "" : `_x${Date.now()}`;
-    const ballIdentifier = `${preOvers}_${preBalls}${illegalSuffix}`;
-    liveState.last_ball_id = ballIdentifier;
-
-    const ballEvent: BallEvent = {
-      id: ballIdentifier,
-      match_id: matchId,
-      innings_id: inningsId,
-      timestamp: null,
-      runs_off_bat: ballInput.runs_off_bat,
-      extras: ballInput.extras
-        ? {
-            type: ballInput.extras.type,
-            runs: ballInput.extras.runs,
-          }
-        : null,
-      wicket: ballInput.wicket
-        ? {
-            is_out: true,
-            type: ballInput.wicket.type,
-            player_id: ballInput.wicket.player_id,
-          }
-        : null,
-      pre_ball_state: preBallState,
-      post_ball_state: liveState,
-    };
-
-    const ballsCollection = getBallsCollection(matchId, inningsId);
-    const ballDoc = doc(ballsCollection);
-
-    const overEntry: OverBall = {
-      id: ballEvent.id,
-      runs_off_bat: ballEvent.runs_off_bat,
-      extras: ballEvent.extras,
-      wicket: ballEvent.wicket,
-    };
-
-    liveState.this_over = [
-      ...((liveState.this_over ?? []) as OverBall[]),
-      overEntry,
-    ].slice(-6);
-
-    const matchResultPayload: MatchResult | null = (() => {
-      const isSecondInnings = liveState.current_innings === 2;
-      const firstInningsRuns = liveState.first_innings_total;
-      if (!isSecondInnings || firstInningsRuns == null) {
-        return null;
-      }
-
-      const target = firstInningsRuns + 1;
-      const chasingRuns = liveState.score.runs;
-      const wicketsLost = liveState.score.wickets;
-      const chasingTeamId =
-        (liveState.second_batting_team_id ??
-          liveState.batting_team_id) as TeamId | undefined;
-      const defendingTeamId =
-        (liveState.first_batting_team_id ??
-          liveState.bowling_team_id) as TeamId | undefined;
-      const chasingTeamData = chasingTeamId
-        ? matchData.teams[chasingTeamId]
-        : undefined;
-      const chasingTeamSize = chasingTeamData?.players.length ?? 0;
-      const maxChasingWickets = Math.max(chasingTeamSize - 1, 1);
-      const wicketsRemaining = Math.max(0, maxChasingWickets - wicketsLost);
-      const totalBalls = matchData.config.total_overs * 6;
-      const ballsBowled =
-        liveState.score.overs * 6 + liveState.score.balls;
-      const ballsRemaining = Math.max(0, totalBalls - ballsBowled);
-
-      const chasingTeamName = chasingTeamId
-        ? matchData.teams[chasingTeamId].name
-        : "Chasing team";
-      const defendingTeamName = defendingTeamId
-        ? matchData.teams[defendingTeamId].name
-        : "Defending team";
-
-      const oversComplete =
-        liveState.score.overs >= matchData.config.total_overs &&
-        liveState.score.balls === 0;
-      const allOut = wicketsRemaining === 0;
-
-      if (chasingRuns >= target) {
-        const margin =
-          wicketsRemaining > 0
-            ? `${wicketsRemaining} wicket${wicketsRemaining === 1 ? "" : "s"}`
-            : `${ballsRemaining} ball${ballsRemaining === 1 ? "" : "s"}`;
-        return {
-          type: "win",
-          winner_team_id: chasingTeamId,
-          loser_team_id: defendingTeamId,
-          margin,
-          summary: `${chasingTeamName} won by ${margin}`,
-          first_innings_runs: firstInningsRuns,
-          second_innings_runs: chasingRuns,
-        };
-      }
-
-      if (allOut || oversComplete) {
-        if (chasingRuns === firstInningsRuns) {
-          return {
-            type: "tie",
-            summary: `Match tied! Both teams scored ${chasingRuns} runs`,
-            first_innings_runs: firstInningsRuns,
-            second_innings_runs: chasingRuns,
-          };
-        }
-
-        const margin = firstInningsRuns - chasingRuns;
-        return {
-          type: "win",
-          winner_team_id: defendingTeamId,
-          loser_team_id: chasingTeamId,
-          margin: `${margin} run${margin === 1 ? "" : "s"}`,
-          summary: `${defendingTeamName} won by ${margin} run${margin === 1 ? "" : "s"}`,
-          first_innings_runs: firstInningsRuns,
-          second_innings_runs: chasingRuns,
-        };
-      }
-
-      return null;
-    })();
-
-    transaction.set(ballDoc, {
+    const inningsId = getInningsId(matchData);
+    const match = { ...matchData, id: matchId };
+    const {
+      state: nextLiveState,
+      ballEvent,
+      result: matchResultPayload,
+    } = applyBall(
+      liveState,
+      match,
+      {
+        runs_off_bat: 0,
+        extras: { type: ExtraType.PENALTY, runs },
+        penalty: { team_id: teamId, reason: reason.trim() },
+      },
+      { inningsId }
+    );
+
+    transaction.set(doc(getBallsCollection(matchId, inningsId)), {
       ...ballEvent,
       timestamp: serverTimestamp(),
     });
 
+    undoneSnapshot?.docs.forEach((undoneDoc) =>
+      transaction.delete(undoneDoc.ref)
+    );
+
+    setInningsRecord(transaction, match, inningsId, nextLiveState);
+
     const updatePayload: Record<string, unknown> = {
-      live_state: liveState,
+      live_state: nextLiveState,
       updated_at: serverTimestamp(),
     };
 
@@ -399,6 +320,61 @@ export async function recordBall(
   });
 }
 
+/**
+ * Resume Retired Batter
+ *
+ * Sends a retired-hurt batter back in at the empty end, keeping the runs and
+ * balls they had when they retired.
+ *
+ * @param matchId - The match document ID
+ * @param batterId - The retired-hurt batter resuming their innings
+ */
+export async function resumeRetiredBatter(
+  matchId: string,
+  batterId: string
+): Promise<void> {
+  const currentUser = requireAuthenticatedUser();
+
+  await runTransaction(db, async (transaction) => {
+    const matchRef = doc(db, "matches", matchId);
+    const matchSnap = await transaction.get(matchRef);
+
+    if (!matchSnap.exists()) {
+      throw new Error("Match not found.");
+    }
+
+    const matchData = matchSnap.data() as Match;
+    assertScoringAccess(matchData, currentUser.uid);
+
+    if (matchData.status !== MatchStatus.LIVE) {
+      throw new Error("Match is not live. Cannot resume a batter.");
+    }
+
+    const liveState = matchData.live_state;
+    if (!(liveState.retired_hurt_ids ?? []).includes(batterId)) {
+      throw new Error("Only a batter who retired hurt can resume their innings.");
+    }
+
+    const vacantEnd =
+      liveState.striker_id === ""
+        ? "striker_id"
+        : liveState.non_striker_id === ""
+        ? "non_striker_id"
+        : null;
+    if (!vacantEnd) {
+      throw new Error("Both batters are at the crease. A batter can only resume when a wicket falls or a batter retires.");
+    }
+
+    transaction.update(matchRef, {
+      live_state: applySelections(liveState, {
+        ...liveState,
+        [vacantEnd]: batterId,
+      }),
+      updated_at: serverTimestamp(),
+    });
+  });
+}
+
 export async function undoLastBall(matchId: string): Promise<void> {
   const currentUser = requireAuthenticatedUser();
   const matchRef = doc(db, "matches", matchId);
@@ -447,8 +423,14 @@ export async function undoLastBall(matchId: string): Promise<void> {
 
     // If undoing takes us to a state where balls === 0 and overs > 0,
     // we're at the start of a new over, so clear last_bowler_id
-    // This allows a new bowler to be selected
-    if (restoredState.score.balls === 0 && restoredState.score.overs > 0) {
+    // This allows a new bowler to be selected (penalty awards and
+    // retirements are not deliveries, so undoing one restores the snapshot
+    // exactly)
+    if (
+      isDeliveryEvent(ballData) &&
+      restoredState.score.balls === 0 &&
+      restoredState.score.overs > 0
+    ) {
       restoredState.last_bowler_id = undefined;
     }
 
@@ -458,8 +440,615 @@ export async function undoLastBall(matchId: string): Promise<void> {
       result: deleteField(),
       updated_at: serverTimestamp(),
     });
-
+    setInningsRecord(
+      transaction,
+      { ...latestMatchData, id: matchId },
+      inningsId,
+      restoredState
+    );
+
+    // Keep the ball on the redo stack instead of discarding it
+    transaction.set(doc(getUndoneCollection(matchId, inningsId), lastBallDoc.id), {
+      ...ballData,
+      undone_at: serverTimestamp(),
+    });
     transaction.delete(lastBallDoc.ref);
   });
 }
 
+/**
+ * List Undone Balls
+ *
+ * @param matchId - The match document ID
+ * @param inningsId - Innings to read ("1" or "2")
+ * @returns The redo stack, next ball to redo first
+ */
+export async function listUndoneBalls(
+  matchId: string,
+  inningsId: string
+): Promise<UndoneBallEvent[]> {
+  requireAuthenticatedUser();
+  const snapshot = await getDocs(
+    query(getUndoneCollection(matchId, inningsId), orderBy("undone_at", "desc"))
+  );
+  return snapshot.docs.map((undoneDoc) => undoneDoc.data() as UndoneBallEvent);
+}
+
+/**
+ * Redo Ball
+ *
+ * Re-applies the most recently undone ball of the current innings and moves
+ * it back into the ledger. Refused if the score has changed since the undo.
+ *
+ * @param matchId - The match document ID
+ */
+export async function redoBall(matchId: string): Promise<void> {
+  const currentUser = requireAuthenticatedUser();
+  const matchSnap = await getDoc(doc(db, "matches", matchId));
+
+  if (!matchSnap.exists()) {
+    throw new Error("Match not found.");
+  }
+
+  const matchData = matchSnap.data() as Match;
+  assertScoringAccess(matchData, currentUser.uid);
+  const inningsId = getInningsId(matchData);
+  const snapshot = await getDocs(
+    query(
+      getUndoneCollection(matchId, inningsId),
+      orderBy("undone_at", "desc"),
+      limit(1)
+    )
+  );
+
+  if (snapshot.empty) {
+    throw new Error("Nothing to redo.");
+  }
+
+  const undoneDoc = snapshot.docs[0];
+
+  await runTransaction(db, async (transaction) => {
+    const matchRef = doc(db, "matches", matchId);
+    const latestSnap = await transaction.get(matchRef);
+
+    if (!latestSnap.exists()) {
+      throw new Error("Match not found.");
+    }
+
+    const latestMatchData = { ...(latestSnap.data() as Match), id: matchId };
+    assertScoringAccess(latestMatchData, currentUser.uid);
+
+    if (latestMatchData.status !== MatchStatus.LIVE) {
+      throw new Error("Match is not live. Cannot redo ball.");
+    }
+
+    const undoneSnap = await transaction.get(undoneDoc.ref);
+
+    if (!undoneSnap.exists()) {
+      throw new Error("Ball already redone. Please try again.");
+    }
+
+    const undoneBall = undoneSnap.data() as UndoneBallEvent;
+    const liveState = latestMatchData.live_state;
+
+    if (diffDerivedState(liveState, undoneBall.pre_ball_state).length > 0) {
+      throw new Error("The score has changed since this ball was undone. It can no longer be redone.");
+    }
+
+    const {
+      state: nextLiveState,
+      ballEvent,
+      result: matchResultPayload,
+    } = applyBall(
+      {
+        ...applySelections(liveState, undoneBall.pre_ball_state),
+        last_bowler_id: undoneBall.pre_ball_state.last_bowler_id,
+      },
+      latestMatchData,
+      ballEventToInput(undoneBall),
+      { inningsId, ballId: undoneBall.id }
+    );
+
+    transaction.set(doc(getBallsCollection(matchId, inningsId), undoneDoc.id), {
+      ...ballEvent,
+      timestamp: serverTimestamp(),
+    });
+    transaction.delete(undoneDoc.ref);
+
+    setInningsRecord(transaction, latestMatchData, inningsId, nextLiveState);
+
+    const updatePayload: Record<string, unknown> = {
+      live_state: nextLiveState,
+      updated_at: serverTimestamp(),
+    };
+
+    if (matchResultPayload) {
+      updatePayload.status = MatchStatus.COMPLETED;
+      updatePayload.result = matchResultPayload;
+    }
+
+    transaction.update(matchRef, updatePayload);
+  });
+}
+
+/**
+ * Verify Match Ledger
+ *
+ * Replays every recorded ball of the match, checks that each ball starts
+ * where the previous one ended, and compares the result with live_state
+ * (current innings) or first_innings_total (completed first innings).
+ *
+ * @param matchId - The match document ID
+ * @returns Report listing gaps, duplicates and drift per innings
+ */
+export async function verifyMatchLedger(
+  matchId: string
+): Promise<LedgerVerificationReport> {
+  const currentUser = requireAuthenticatedUser();
+  const matchSnap = await getDoc(doc(db, "matches", matchId));
+
+  if (!matchSnap.exists()) {
+    throw new Error("Match not found.");
+  }
+
+  const matchData = { ...(matchSnap.data() as Match), id: matchId };
+  assertScoringAccess(matchData, currentUser.uid);
+
+  const currentInningsId = getInningsId(matchData);
+  const inningsIds = getPlayedInningsIds(matchData);
+
+  const innings: InningsLedgerReport[] = [];
+  for (const inningsId of inningsIds) {
+    const ledger = await loadInningsLedger(matchId, inningsId);
+    const isCurrent = inningsId === currentInningsId;
+    const summary = matchData.live_state.super_over
+      ? undefined
+      : matchData.innings_summaries?.find(
+          (entry) => String(entry.innings) === inningsId
+        );
+    innings.push(
+      verifyInningsLedger(
+        matchData,
+        inningsId,
+        ledger.map((entry) => entry.ball),
+        isCurrent
+          ? { state: matchData.live_state }
+          : { total: summary?.score.runs ?? matchData.live_state.first_innings_total }
+      )
+    );
+  }
+
+  return {
+    match_id: matchId,
+    checked_at: Date.now(),
+    innings,
+    is_consistent: innings.every((report) => report.issues.length === 0),
+  };
+}
+
+/**
+ * Repair Live State
+ *
+ * Rewrites the derived parts of live_state (score, figures, dismissals,
+ * over history, free hit) from a replay of the current innings ledger.
+ * Player selections made since the last ball are kept as they are.
+ *
+ * @param matchId - The match document ID
+ */
+export async function repairLiveState(matchId: string): Promise<void> {
+  const currentUser = requireAuthenticatedUser();
+  const matchSnap = await getDoc(doc(db, "matches", matchId));
+
+  if (!matchSnap.exists()) {
+    throw new Error("Match not found.");
+  }
+
+  const matchData = { ...(matchSnap.data() as Match), id: matchId };
+  assertScoringAccess(matchData, currentUser.uid);
+  const inningsId = getInningsId(matchData);
+  const ledger = await loadInningsLedger(matchId, inningsId);
+
+  await runTransaction(db, async (transaction) => {
+    const matchRef = doc(db, "matches", matchId);
+    const latestSnap = await transaction.get(matchRef);
+
+    if (!latestSnap.exists()) {
+      throw new Error("Match not found.");
+    }
+
+    const latestMatchData = { ...(latestSnap.data() as Match), id: matchId };
+    assertScoringAccess(latestMatchData, currentUser.uid);
+
+    if (getInningsId(latestMatchData) !== inningsId) {
+      throw new Error("The innings changed while repairing. Please try again.");
+    }
+
+    const liveState = latestMatchData.live_state;
+    const report = verifyInningsLedger(
+      latestMatchData,
+      inningsId,
+      ledger.map((entry) => entry.ball),
+      { state: liveState }
+    );
+    const replayed =
+      report.replayed_state ?? createInningsStartState(liveState);
+
+    const repairedState: MatchLiveState = {
+      ...withInningsClosure(
+        { ...liveState, score: replayed.score },
+        latestMatchData
+      ),
+      score: replayed.score,
+      player_stats: replayed.player_stats,
+      dismissed_batter_ids: replayed.dismissed_batter_ids,
+      this_over: replayed.this_over,
+      is_free_hit: replayed.is_free_hit,
+      extras: getExtrasBreakdown(replayed),
+      fall_of_wickets: replayed.fall_of_wickets ?? [],
+    };
+
+    if (replayed.last_ball_id) {
+      repairedState.last_ball_id = replayed.last_ball_id;
+    } else {
+      delete repairedState.last_ball_id;
+    }
+    if (replayed.over_tally) {
+      repairedState.over_tally = replayed.over_tally;
+    } else {
+      delete repairedState.over_tally;
+    }
+
+    transaction.update(matchRef, {
+      live_state: repairedState,
+      updated_at: serverTimestamp(),
+    });
+    setInningsRecord(transaction, latestMatchData, inningsId, repairedState);
+  });
+}
+
+/**
+ * Rewrite Innings Ledger
+ *
+ * Applies an edit to the ordered ledger of an innings, rederives every ball's
+ * snapshots from the start of the innings and writes the ledger, live_state
+ * and result back in a single transaction. The edit sees the match, so it
+ * can hold new balls to the same rules as live scoring.
+ */
+const rewriteInningsLedger = async (
+  matchId: string,
+  inningsId: string,
+  edit: (entries: LedgerEntry[], matchData: Match) => LedgerEntry[]
+): Promise<void> => {
+  const currentUser = requireAuthenticatedUser();
+  const ledger = await loadInningsLedger(matchId, inningsId);
+
+  if (ledger.length === 0) {
+    throw new Error("No balls recorded in this innings.");
+  }
+
+  const lastBall = ledger[ledger.length - 1].ball;
+
+  await runTransaction(db, async (transaction) => {
+    const matchRef = doc(db, "matches", matchId);
+    const matchSnap = await transaction.get(matchRef);
+
+    if (!matchSnap.exists()) {
+      throw new Error("Match not found.");
+    }
+
+    const matchData = { ...(matchSnap.data() as Match), id: matchId };
+    assertScoringAccess(matchData, currentUser.uid);
+
+    // Innings from before a super over began are settled
+    if (!getPlayedInningsIds(matchData).includes(inningsId)) {
+      throw new Error("This innings can no longer be edited.");
+    }
+
+    const liveState = matchData.live_state;
+    const isCurrentInnings = getInningsId(matchData) === inningsId;
+
+    if (isCurrentInnings && liveState.last_ball_id !== lastBall.id) {
+      throw new Error("The ledger changed while editing. Please try again.");
+    }
+
+    const editedLedger = edit(ledger, matchData);
+
+    const rederived = rederiveInnings(
+      matchData,
+      inningsId,
+      editedLedger.map((entry) => entry.ball),
+      ledger[0].ball.pre_ball_state
+    );
+
+    let nextLiveState: MatchLiveState;
+    let result: MatchResult | null;
+    let superOver = matchData.super_over;
+    let inningsSummaries = matchData.innings_summaries;
+
+    if (isCurrentInnings) {
+      nextLiveState = carrySelections(
+        rederived.state,
+        liveState,
+        lastBall.post_ball_state
+      );
+      if (rederived.balls.length === 0) {
+        delete nextLiveState.last_ball_id;
+      }
+      result = rederived.result;
+    } else {
+      nextLiveState = {
+        ...deepCloneState(liveState),
+        first_innings_total: rederived.state.score.runs,
+      };
+      // The edited innings' frozen scorecard follows the ledger
+      const refreshSummary = (summary: InningsSummary): InningsSummary =>
+        getSummaryInningsId(summary) === inningsId
+          ? {
+              ...summary,
+              score: { ...rederived.state.score },
+              player_stats: rederived.state.player_stats ?? { batters: {}, bowlers: {} },
+              extras: getExtrasBreakdown(rederived.state),
+              fall_of_wickets: rederived.state.fall_of_wickets ?? [],
+              ...(rederived.state.pair_scores
+                ? { pair_scores: rederived.state.pair_scores }
+                : {}),
+            }
+          : summary;
+      if (superOver?.first_innings) {
+        superOver = {
+          ...superOver,
+          first_innings: {
+            ...superOver.first_innings,
+            runs: rederived.state.score.runs,
+            wickets: rederived.state.score.wickets,
+          },
+          ...(superOver.innings_summaries
+            ? { innings_summaries: superOver.innings_summaries.map(refreshSummary) }
+            : {}),
+        };
+      } else if (inningsSummaries) {
+        inningsSummaries = inningsSummaries.map(refreshSummary);
+        // With two innings a side, the chase is against both earlier totals
+        if (getInningsPerSide(matchData.config) > 1) {
+          if (isFinalInnings(liveState, matchData.config)) {
+            nextLiveState.first_innings_total =
+              getSideRuns(inningsSummaries, liveState.bowling_team_id) -
+              getSideRuns(inningsSummaries, liveState.batting_team_id);
+          } else {
+            delete nextLiveState.first_innings_total;
+          }
+        }
+      }
+      result = evaluateResult(nextLiveState, {
+        ...matchData,
+        super_over: superOver,
+        innings_summaries: inningsSummaries,
+      });
+    }
+
+    const keptRefs = new Set(editedLedger.map((entry) => entry.ref.path));
+    ledger
+      .filter((entry) => !keptRefs.has(entry.ref.path))
+      .forEach((entry) => transaction.delete(entry.ref));
+
+    editedLedger.forEach((entry, index) => {
+      transaction.set(entry.ref, {
+        ...rederived.balls[index],
+        timestamp: entry.ball.timestamp ?? serverTimestamp(),
+      });
+    });
+
+    // A completed innings keeps its status; the innings in play may have a
+    // new target as well as a new score
+    if (!isCurrentInnings) {
+      transaction.set(
+        getInningsRef(matchId, inningsId),
+        {
+          score: { ...rederived.state.score },
+          extras: getExtrasBreakdown(rederived.state),
+        },
+        { merge: true }
+      );
+    }
+    // The edit may close the innings in play or reopen it
+    const editedMatch = {
+      ...matchData,
+      ...(superOver ? { super_over: superOver } : {}),
+      ...(inningsSummaries ? { innings_summaries: inningsSummaries } : {}),
+    };
+    nextLiveState = withInningsClosure(nextLiveState, editedMatch);
+    setInningsRecord(transaction, editedMatch, getInningsId(matchData), nextLiveState);
+
+    const updatePayload: Record<string, unknown> = {
+      live_state: nextLiveState,
+      ...(superOver ? { super_over: superOver } : {}),
+      ...(inningsSummaries ? { innings_summaries: inningsSummaries } : {}),
+      updated_at: serverTimestamp(),
+    };
+
+    if (result) {
+      updatePayload.status = MatchStatus.COMPLETED;
+      updatePayload.result = result;
+    } else if (matchData.result) {
+      updatePayload.status = MatchStatus.LIVE;
+      updatePayload.result = deleteField();
+    }
+
+    transaction.update(matchRef, updatePayload);
+  });
+};
+
+const findLedgerEntry = (ledger: LedgerEntry[], ballId: string) => {
+  const entry = ledger.find((candidate) => candidate.ball.id === ballId);
+  if (!entry) {
+    throw new Error(`Ball ${ballId} was not found in this innings.`);
+  }
+  return entry;
+};
+
+// Edits follow the house rules and laws live scoring does, on the ball's own
+// free-hit state
+const assertBatterAtCrease = (
+  ball: BallEvent,
+  ballInput: BallInput,
+  config: Match["config"]
+) => {
+  validateDismissal(ballInput, !!ball.pre_ball_state.is_free_hit, config);
+  const { striker_id, non_striker_id } = ball.pre_ball_state;
+  if (
+    ballInput.wicket &&
+    ![striker_id, non_striker_id].includes(ballInput.wicket.player_id)
+  ) {
+    throw new Error("The dismissed batter must have been at the crease for this ball.");
+  }
+};
+
+// A timestamp that sorts strictly between two ledger entries
+const timestampBetween = (
+  before: Timestamp | null | undefined,
+  after: Timestamp | null | undefined
+): Timestamp => {
+  const afterMillis = after?.toMillis() ?? Date.now();
+  const beforeMillis = before?.toMillis() ?? afterMillis - 1;
+  return Timestamp.fromMillis((beforeMillis + afterMillis) / 2);
+};
+
+/**
+ * List Innings Balls
+ *
+ * @param matchId - The match document ID
+ * @param inningsId - Innings to read ("1" or "2")
+ * @returns Ledger entries in the order they were bowled
+ */
+export async function listInningsBalls(
+  matchId: string,
+  inningsId: string
+): Promise<BallEvent[]> {
+  requireAuthenticatedUser();
+  const ledger = await loadInningsLedger(matchId, inningsId);
+  return ledger.map((entry) => entry.ball);
+}
+
+/**
+ * Correct Ball
+ *
+ * Replaces what happened on any past delivery and recalculates every later
+ * ball and the live score. Turning a legal ball into a wide or no-ball (or
+ * back) moves the later over boundaries, and each over that gains a ball
+ * goes to the bowler who bowled most of it, as with an insert.
+ *
+ * @param matchId - The match document ID
+ * @param inningsId - Innings the ball belongs to
+ * @param ballId - Ledger id of the ball (e.g. "5_4")
+ * @param newInput - The corrected outcome of the ball
+ */
+export async function correctBall(
+  matchId: string,
+  inningsId: string,
+  ballId: string,
+  newInput: BallInput
+): Promise<void> {
+  await rewriteInningsLedger(matchId, inningsId, (ledger, matchData) => {
+    const target = findLedgerEntry(ledger, ballId);
+    if (isPenaltyEvent(target.ball.extras) || isPenaltyEvent(newInput.extras)) {
+      throw new Error("Penalty awards cannot be corrected. Delete the award and make it again.");
+    }
+    // The house rules turn the ball into what live scoring would have recorded
+    const ball = applyHouseRules(target.ball.pre_ball_state, matchData.config, newInput);
+    assertBatterAtCrease(target.ball, ball, matchData.config);
+
+    return ledger.map((entry) =>
+      entry === target
+        ? { ...entry, ball: { ...entry.ball, ...toLedgerFields(ball) } }
+        : entry
+    );
+  });
+}
+
+/**
+ * Delete Ball
+ *
+ * Removes any past delivery from the ledger and recalculates every later
+ * ball and the live score. Each over that gains a ball from the next goes to
+ * the bowler who bowled most of it, as with an insert.
+ *
+ * @param matchId - The match document ID
+ * @param inningsId - Innings the ball belongs to
+ * @param ballId - Ledger id of the ball (e.g. "5_4")
+ */
+export async function deleteBall(
+  matchId: string,
+  inningsId: string,
+  ballId: string
+): Promise<void> {
+  await rewriteInningsLedger(matchId, inningsId, (ledger) => {
+    const target = findLedgerEntry(ledger, ballId);
+    return ledger.filter((entry) => entry !== target);
+  });
+}
+
+/**
+ * Insert Ball Before
+ *
+ * Splices a delivery that was never entered into the ledger just before an
+ * existing ball. The new ball is bowled by the same bowler to the same
+ * batters as the ball it precedes; every later ball is renumbered and its
+ * snapshots, over boundaries and bowler credit are recalculated. Each over
+ * the insert pushes a ball into goes to the bowler who bowled most of it.
+ *
+ * @param matchId - The match document ID
+ * @param ballId - Ledger id of the ball the missed delivery came before
+ * @param ballInput - What happened on the missed delivery
+ * @param inningsId - Innings to insert into (defaults to the current innings)
+ */
+export async function insertBallBefore(
+  matchId: string,
+  ballId: string,
+  ballInput: BallInput,
+  inningsId?: string
+): Promise<void> {
+  let resolvedInningsId = inningsId;
+  if (!resolvedInningsId) {
+    const matchSnap = await getDoc(doc(db, "matches", matchId));
+    if (!matchSnap.exists()) {
+      throw new Error("Match not found.");
+    }
+    resolvedInningsId = getInningsId(matchSnap.data() as Match);
+  }
+
+  if (isPenaltyEvent(ballInput.extras)) {
+    throw new Error("Penalty runs are not a delivery. Award them separately.");
+  }
+
+  const newBallRef = doc(getBallsCollection(matchId, resolvedInningsId));
+
+  await rewriteInningsLedger(matchId, resolvedInningsId, (ledger, matchData) => {
+    const target = findLedgerEntry(ledger, ballId);
+    // The missed ball is bowled from the state of the ball it precedes
+    const ball = applyHouseRules(target.ball.pre_ball_state, matchData.config, ballInput);
+    assertBatterAtCrease(target.ball, ball, matchData.config);
+
+    const targetIndex = ledger.indexOf(target);
+    const previous = targetIndex > 0 ? ledger[targetIndex - 1] : null;
+
+    const insertedEntry: LedgerEntry = {
+      ref: newBallRef,
+      ball: {
+        ...target.ball,
+        ...toLedgerFields(ball),
+        id: `${target.ball.id}_inserted`,
+        timestamp: timestampBetween(
+          previous?.ball.timestamp,
+          target.ball.timestamp
+        ),
+      },
+    };
+    delete insertedEntry.ball.penalty;
+
+    return [
+      ...ledger.slice(0, targetIndex),
+      insertedEntry,
+      ...ledger.slice(targetIndex),
+    ];
+  });
+}
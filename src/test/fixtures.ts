@@ -0,0 +1,77 @@
+/**
+ * Test Fixtures
+ *
+ * Two five-player teams, a short match between them and the live state at
+ * the start of each innings, shared by the engine and ledger tests.
+ */
+
+import type { BallEvent, BallInput, MatchLiveState, Team } from "@/types/cricket";
+import { applyBall, type EngineMatch } from "@/lib/cricket/engine";
+
+export const buildTeam = (id: "a" | "b", name: string): Team => ({
+  id,
+  name,
+  players: [1, 2, 3, 4, 5].map((number) => ({
+    id: `${id}${number}`,
+    name: `${name} ${number}`,
+    normalized_name: `${name} ${number}`.toLowerCase(),
+  })),
+});
+
+export const buildMatch = (
+  config: Partial<EngineMatch["config"]> = {}
+): EngineMatch => ({
+  id: "match-1",
+  config: { total_overs: 2, wide_runs: 1, no_ball_runs: 1, ...config },
+  teams: { a: buildTeam("a", "Ants"), b: buildTeam("b", "Bees") },
+});
+
+// Ants batting first: a1 on strike, a2 at the other end, b1 bowling
+export const firstInningsState = (): MatchLiveState => ({
+  batting_team_id: "a",
+  bowling_team_id: "b",
+  striker_id: "a1",
+  non_striker_id: "a2",
+  bowler_id: "b1",
+  score: { runs: 0, wickets: 0, overs: 0, balls: 0 },
+  player_stats: { batters: {}, bowlers: {} },
+  dismissed_batter_ids: [],
+  current_innings: 1,
+});
+
+// Bees chasing the 10 the Ants made in the first innings
+export const chaseState = (
+  score: Partial<MatchLiveState["score"]> = {}
+): MatchLiveState => ({
+  batting_team_id: "b",
+  bowling_team_id: "a",
+  striker_id: "b1",
+  non_striker_id: "b2",
+  bowler_id: "a1",
+  score: { runs: 0, wickets: 0, overs: 0, balls: 0, ...score },
+  player_stats: { batters: {}, bowlers: {} },
+  dismissed_batter_ids: [],
+  current_innings: 2,
+  first_innings_total: 10,
+  first_batting_team_id: "a",
+  second_batting_team_id: "b",
+});
+
+/**
+ * Scores the balls one after another from the given state, as live scoring
+ * would, keeping the ledger entries they produce.
+ */
+export const play = (match: EngineMatch, state: MatchLiveState, inputs: BallInput[]) =>
+  inputs.reduce(
+    (outcome, input) => {
+      const next = applyBall(outcome.state, match, input, { inningsId: "1" });
+      return { ...next, balls: [...outcome.balls, next.ballEvent] };
+    },
+    {
+      state,
+      result: null as ReturnType<typeof applyBall>["result"],
+      balls: [] as BallEvent[],
+    }
+  );
+
+export const dot: BallInput = { runs_off_bat: 0 };
@@ -34,7 +34,9 @@ export enum WicketType {
   RUN_OUT = 'run_out',
   STUMPED = 'stumped',
   HIT_WICKET = 'hit_wicket',
-  RETIRED = 'retired',
+  BOUNDARY_OUT = 'boundary_out', // House rules: out for hitting a boundary (e.g. "six and out")
+  RETIRED = 'retired', // Retired out: counts as a wicket
+  RETIRED_HURT = 'retired_hurt', // Not a wicket: the batter may resume later in the innings
 }
 
 /**
@@ -83,8 +85,98 @@ export interface MatchConfig {
   total_overs: number; // Total overs per innings (e.g., 20 for T20, 50 for ODI)
   wide_runs: number; // Runs awarded for a wide (typically 1)
   no_ball_runs: number; // Runs awarded for a no-ball (typically 1)
+  penalty_runs?: number; // Runs per penalty award (defaults to 5)
+  balls_per_over?: number; // Legal balls per over (defaults to 6; e.g. 8, or 5-ball sets)
+  ten_from_one_end?: boolean; // 5-ball sets only: ends change after every second set
+  max_overs_per_bowler?: number; // Overs each bowler may bowl (defaults to a fifth of total_overs; no limit when each side bats twice)
+  phases?: MatchPhase[]; // Phases reported separately (e.g. powerplay overs 1-6), in order
+  innings_per_side?: 1 | 2; // Innings each side bats (defaults to 1; 2 for Test / two-day matches)
+  follow_on_margin?: number; // Two-innings matches: first-innings lead that lets the follow-on be enforced (defaults to 200)
+  last_man_stands?: boolean; // The last batter bats on alone, so the side is all out only when every batter is out
+  pairs?: PairsFormat; // Pairs cricket: batters come in as pairs for a set number of overs each
+  house_rules?: HouseRules; // Casual playing conditions layered over the usual laws
+  laws?: LawsOptions; // Laws behaviour that changed in 2022 (defaults to the 2022 laws)
 }
 
+/**
+ * Laws Options
+ * Behaviour that differs between the 2022 Laws of Cricket and older or local
+ * rules
+ */
+export type CatchStrikeLaw = 'new_batter' | 'crossed';
+
+export interface LawsOptions {
+  catch_strike?: CatchStrikeLaw; // After a catch: the new batter faces (2022) or the crossing decides (older laws)
+  backing_up_run_out?: boolean; // Whether a non-striker backing up too far may be run out at the bowler's end (defaults to true)
+}
+
+/**
+ * Boundary Out Rule
+ * Which boundaries dismiss the batter under a boundary-out house rule
+ */
+export type BoundaryOutRule = 'six' | 'four_or_six';
+
+/**
+ * House Rules
+ * Playing conditions for casual games (gully, backyard, club socials)
+ */
+export interface HouseRules {
+  allowed_wickets?: WicketType[]; // Dismissals in play (all when unset); retiring is always allowed
+  boundary_out?: BoundaryOutRule; // The boundary scores nothing and the batter is out
+  object_runs?: number; // Runs for hitting the fixed object (a tree, a wall), when one is in play
+  no_wicket_last_ball?: boolean; // The last ball of an over cannot take a wicket
+}
+
+/**
+ * Pairs Format
+ * Each pair bats a fixed block of overs; a dismissal costs runs instead of
+ * ending the innings, so a side is never all out
+ */
+export interface PairsFormat {
+  overs_per_pair: number; // Overs each pair bats before the next pair comes in
+  dismissal_runs: number; // Runs taken off the total for each dismissal (e.g. 5)
+}
+
+/**
+ * Pair Score
+ * Runs, dismissals and legal balls of one pair in a pairs innings
+ */
+export interface PairScore {
+  pair: number; // 1 for the opening pair
+  batter_ids: string[]; // Batters who batted in the pair's overs
+  runs: number; // Net of dismissal deductions (may be negative)
+  wickets: number; // Times the pair was dismissed
+  balls: number; // Legal balls faced
+}
+
+/**
+ * Match Phase
+ * A block of overs whose runs and wickets are reported separately
+ */
+export type MatchPhaseName = 'powerplay' | 'middle' | 'death';
+
+export interface MatchPhase {
+  name: MatchPhaseName;
+  start_over: number; // First over of the phase (1-based)
+  end_over: number; // Last over of the phase (inclusive)
+}
+
+/**
+ * Phase Summary
+ * Runs, wickets and legal balls of one innings within a phase
+ */
+export interface PhaseSummary extends MatchPhase {
+  runs: number;
+  wickets: number;
+  balls: number; // Legal balls bowled in the phase
+}
+
+/**
+ * Over Format
+ * How many balls make an over and how often the ends change
+ */
+export type OverFormat = Pick<MatchConfig, 'balls_per_over' | 'ten_from_one_end'>;
+
 /**
  * Toss Result
  * Records which team won the toss and their decision
@@ -102,23 +194,64 @@ export interface Score {
   runs: number; // Total runs scored
   wickets: number; // Number of wickets fallen
   overs: number; // Completed overs (e.g., 5)
-  balls: number; // Balls in current over (0-5)
+  balls: number; // Balls in current over (0 to balls_per_over - 1)
+}
+
+/**
+ * Batter Dismissal
+ * How a batter got out, for the batting card (e.g. "c Fielder b Bowler")
+ */
+export interface BatterDismissal {
+  type: WicketType;
+  bowler_id?: string; // Bowler credited with the wicket (not set for run outs)
+  fielder_id?: string; // Catcher, wicketkeeper or fielder involved in a run out
+  assisting_fielder_id?: string; // Run outs: the fielder who threw to fielder_id
 }
 
 export interface BatterStats {
   runs: number;
   balls: number;
+  fours: number;
+  sixes: number;
+  dots: number; // Balls faced without scoring off the bat
+  dismissal?: BatterDismissal; // Set once the batter is out
 }
 
 export interface BowlerStats {
-  runs: number;
+  runs: number; // Runs conceded (byes and leg-byes are not charged to the bowler)
   balls: number;
   wickets: number;
+  maidens: number; // Completed overs bowled without conceding a run
+  dots: number; // Legal balls that conceded no runs
+  wides: number; // Wides bowled
+  no_balls: number; // No-balls bowled
+  fours: number; // Fours conceded off the bat
+  sixes: number; // Sixes conceded off the bat
+}
+
+/**
+ * Over Tally
+ * What the current bowler has conceded in the over being bowled, kept by the
+ * engine to credit maidens; not shown on any scorecard
+ */
+export interface OverTally {
+  over: number; // Completed overs in the innings when this over began
+  bowler_id: string;
+  runs: number; // Runs charged to the bowler so far in the over
+  balls: number; // Legal balls bowled so far in the over
+}
+
+export interface FieldingStats {
+  catches: number;
+  stumpings: number;
+  run_outs_direct: number; // Run outs effected alone (direct hit or own gather)
+  run_outs_assisted: number; // Run outs shared with another fielder
 }
 
 export interface PlayerStatsState {
   batters: Record<string, BatterStats>;
   bowlers: Record<string, BowlerStats>;
+  fielders?: Record<string, FieldingStats>; // Bowling team players credited in the field
 }
 
 /**
@@ -134,25 +267,179 @@ export interface MatchLiveState {
   bowler_id: string; // Player ID of the current bowler
   score: Score; // Current score (runs, wickets, overs, balls)
   this_over?: OverBall[]; // Recent deliveries for display
+  over_tally?: OverTally; // The current bowler's spell in the over being bowled (for maidens)
   player_stats?: PlayerStatsState;
   is_free_hit?: boolean;
   last_ball_id?: string;
   last_bowler_id?: string; // Player ID of the bowler who just completed an over (prevents consecutive overs)
   dismissed_batter_ids?: string[]; // Tracks batters who have been dismissed (prevents re-selection)
-  first_innings_total?: number; // Total runs scored in first innings (for RRR calculation in second innings)
-  current_innings?: 1 | 2; // Tracks which innings is currently active
+  retired_hurt_ids?: string[]; // Batters who retired hurt and may still resume their innings
+  first_innings_total?: number; // Runs the chasing side must pass in the last innings (the first innings total in a one-innings match)
+  current_innings?: number; // Tracks which innings is currently active (1-4; 1-2 in a super over)
   first_batting_team_id?: TeamId; // Team that batted first (sets the target)
   second_batting_team_id?: TeamId; // Team currently batting second / chasing
+  fielding_penalty_runs?: number; // Penalty runs awarded to the fielding side this innings (added to their next innings)
+  opening_penalty_runs?: number; // Penalty runs the batting side started this innings with
+  super_over?: number; // Super over in progress (1 for the first); unset in the match itself
+  declared?: boolean; // The batting side has declared this innings closed
+  innings_closed?: InningsCloseReason; // Set the moment the innings ends; the next innings may then start
+  follow_on?: boolean; // The batting side is following on
+  pair_scores?: PairScore[]; // Pairs cricket: each pair's score this innings, in batting order
+  extras?: ExtrasBreakdown; // Extras conceded this innings, by kind
+  fall_of_wickets?: FallOfWicket[]; // Wickets this innings, in the order they fell
+}
+
+/**
+ * Fall of Wicket
+ * The team score when a wicket fell
+ */
+export interface FallOfWicket {
+  wicket: number; // 1 for the first wicket
+  batter_id: string; // Batter dismissed
+  runs: number; // Team runs when the wicket fell
+  balls: number; // Legal balls bowled in the innings when the wicket fell
+}
+
+/**
+ * Extras Breakdown
+ * Runs conceded as extras in an innings, by kind
+ */
+export interface ExtrasBreakdown {
+  wides: number;
+  no_balls: number; // The no-ball runs only; runs off the bat go to the batter
+  byes: number;
+  leg_byes: number;
+  penalties: number; // Penalty runs awarded to the batting side (including any carried in)
+}
+
+/**
+ * Innings Summary
+ * Final score and scorecard of a completed innings, kept on the match in
+ * order, so the card survives the live state being reset for the next
+ * innings
+ */
+export interface InningsSummary {
+  innings: number; // 1-4 (1-2 in a super over)
+  super_over?: number; // Super over the innings was batted in; unset for the match's own innings
+  batting_team_id: TeamId;
+  bowling_team_id: TeamId;
+  score: Score;
+  declared?: boolean;
+  follow_on?: boolean; // Batted following on
+  pair_scores?: PairScore[]; // Pairs cricket: each pair's score
+  player_stats?: PlayerStatsState; // Batting, bowling and fielding figures
+  extras?: ExtrasBreakdown;
+  fall_of_wickets?: FallOfWicket[];
+}
+
+/**
+ * Innings Status & Close Reason
+ * An innings is in progress until it is closed, and records why it closed
+ */
+export type InningsStatus = 'in_progress' | 'completed';
+
+export type InningsCloseReason =
+  | 'all_out'
+  | 'overs_complete'
+  | 'declared'
+  | 'target_reached'
+  | 'match_ended'; // The match was ended by the scorer
+
+/**
+ * Innings Entity
+ * One innings of the match (or of a super over), stored at
+ * matches/{match_id}/innings/{innings_id} above its ball ledger. Created when
+ * the innings starts and kept in step with live_state as balls are recorded
+ * and undone.
+ */
+export interface Innings {
+  id: InningsId; // "1"-"4", or "so1_1", "so1_2", ... in a super over
+  number: number; // 1-4 (1-2 in a super over)
+  super_over?: number; // Super over the innings belongs to
+  batting_team_id: TeamId;
+  bowling_team_id: TeamId;
+  status: InningsStatus;
+  score: Score; // Total, wickets and overs
+  extras: ExtrasBreakdown;
+  target?: number; // Runs the batting side needs, when it is chasing
+  follow_on?: boolean; // Batted following on
+  close_reason?: InningsCloseReason; // Set once the innings is completed
 }
 
 export interface MatchResult {
-  type: "win" | "tie";
+  type: "win" | "tie" | "draw";
   winner_team_id?: TeamId;
   loser_team_id?: TeamId;
   margin?: string;
   summary: string;
-  first_innings_runs: number;
-  second_innings_runs: number;
+  first_innings_runs: number; // Two-innings matches: runs of the side that batted first, both innings
+  second_innings_runs: number; // Two-innings matches: runs of the other side, both innings
+  revised_target?: number; // Set when the chase had a revised target
+  super_overs?: SuperOver[]; // Super overs played after the match was tied, in order
+}
+
+/**
+ * Super Over Score
+ * One side's innings in a super over
+ */
+export interface SuperOverScore {
+  team_id: TeamId;
+  runs: number;
+  wickets: number;
+}
+
+/**
+ * Super Over
+ * Both innings of one super over
+ */
+export interface SuperOver {
+  number: number; // 1 for the first super over, 2 if that one was tied too, ...
+  first_innings: SuperOverScore;
+  second_innings: SuperOverScore;
+}
+
+/**
+ * Super Over State
+ * Kept on the match while super overs are played to settle a tie
+ */
+export interface SuperOverState {
+  number: number; // Super over in progress
+  tied_result: MatchResult; // Result of the match itself, before any super over
+  completed: SuperOver[]; // Earlier super overs, which were also tied
+  first_innings?: SuperOverScore; // Set once the side batting first has had its over
+  innings_summaries?: InningsSummary[]; // Super-over innings already batted, in order, scorecards included
+}
+
+/**
+ * Target Method
+ * How a revised target is worked out when overs are lost
+ */
+export type TargetMethod = 'average_run_rate' | 'resource_table';
+
+/**
+ * Overs Revision
+ * One cut in overs (e.g. for rain), kept on the match as history
+ */
+export interface OversRevision {
+  innings: number; // Innings in progress when play stopped
+  previous_overs: number; // Overs per innings before the cut
+  new_overs: number; // Overs per innings after the cut
+  balls_bowled: number; // Legal balls bowled in that innings when play stopped
+  wickets_lost: number; // Wickets down in that innings when play stopped
+  method: TargetMethod; // Method used for the revised target
+  target?: number; // Revised target set by this cut (second innings only)
+  reason?: string; // e.g. "Rain"
+  revised_at: number; // Timestamp when overs were cut
+}
+
+/**
+ * Interruption Input
+ * What the scorer enters when play is cut short
+ */
+export interface InterruptionInput {
+  new_overs: number; // Overs per innings from now on
+  method?: TargetMethod; // Defaults to average run rate
+  reason?: string;
 }
 
 /**
@@ -174,6 +461,11 @@ export interface Match {
   toss: TossResult | null; // Toss result (null if toss not done yet)
   live_state: MatchLiveState; // Current live state (denormalized for fast reads)
   result?: MatchResult; // Final result details when match is completed
+  revisions?: OversRevision[]; // Overs cut by interruptions, oldest first
+  revised_target?: number; // Target for the second innings after overs were cut
+  super_over?: SuperOverState; // Set once a tied match goes to a super over
+  innings_summaries?: InningsSummary[]; // Completed innings, in order
+  current_innings_id?: InningsId; // Innings in play: innings/{id} and its ball ledger
   created_at: number; // Timestamp when match was created
   updated_at: number; // Timestamp when match was last updated
 }
@@ -200,7 +492,21 @@ export interface Wicket {
   type: WicketType | null; // Type of dismissal (null if not out)
   player_id: string | null; // ID of the player who was dismissed
   dismissed_by?: string; // Optional: Player ID who took the wicket (bowler/fielder)
+  assisted_by?: string; // Optional: run outs, the fielder who threw to dismissed_by
   is_striker_out?: boolean; // Whether the striker was out (critical for strike rotation)
+  dismissal_end?: CreaseEnd; // End where the wicket was broken (run outs); the new batter comes in here
+  batters_crossed?: boolean; // Catches under the older laws: the batters had crossed before the catch
+  backing_up?: boolean; // Non-striker run out for leaving the crease before the ball was bowled (not a delivery)
+}
+
+/**
+ * Penalty Award
+ * Recorded on a penalty ledger entry (extras type PENALTY). Penalties are
+ * not deliveries: no ball is consumed and nothing is credited to the bowler.
+ */
+export interface PenaltyAward {
+  team_id: TeamId; // Team the runs are awarded to (batting or fielding side)
+  reason: string; // Why the umpires awarded the penalty
 }
 
 export interface OverBall {
@@ -229,7 +535,7 @@ export interface OverBall {
  * 1. Fetch the last BallEvent document
  * 2. Extract pre_ball_state (the state before this ball)
  * 3. Restore match state to pre_ball_state values
- * 4. Delete the BallEvent document
+ * 4. Move the BallEvent document to the innings redo stack (undone/)
  * 5. Recalculate derived stats from remaining balls
  * 
  * This approach ensures data consistency and eliminates guesswork.
@@ -243,8 +549,10 @@ export interface BallEvent {
 
   // The Event Data (What happened on this ball)
   runs_off_bat: number; // Runs scored off the bat (0-6, or more for overthrows)
+  boundary?: boolean; // The runs off the bat were a boundary; unset on balls recorded before the flag
   extras: Extras | null; // Any extras awarded (wide, no-ball, bye, leg-bye, penalty)
   wicket: Wicket | null; // Wicket information if a dismissal occurred
+  penalty?: PenaltyAward; // Set on penalty awards, which are not deliveries
 
   // The Snapshot (CRITICAL FOR UNDO)
   /**
@@ -259,7 +567,7 @@ export interface BallEvent {
    * When we undo:
    * 1. We restore live_state to this pre_ball_state
    * 2. We reverse any calculations (subtract runs, etc.)
-   * 3. We delete this BallEvent document
+   * 3. We move this BallEvent document to the redo stack
    * 
    * This makes undo operations strictly deterministic - we always know
    * exactly what the state was before this ball, without needing to
@@ -278,6 +586,18 @@ export interface BallEvent {
   post_ball_state?: MatchLiveState;
 }
 
+/**
+ * Undone Ball Event (The Redo Stack)
+ *
+ * When a ball is undone it is moved, unchanged, to
+ * matches/{match_id}/innings/{innings_id}/undone/{ball_doc_id}
+ * so it can be redone later. The stack is cleared as soon as a fresh
+ * ball is recorded.
+ */
+export interface UndoneBallEvent extends BallEvent {
+  undone_at: Timestamp | null; // When the ball was undone (newest is redone first)
+}
+
 // ============================================================================
 // UTILITY TYPES
 // ============================================================================
@@ -294,6 +614,13 @@ export type InningsId = string; // Typically "1" or "2"
  */
 export type TeamId = 'a' | 'b';
 
+/**
+ * Crease End
+ * The two ends of the pitch: where the striker faces, and the bowler's end
+ * where the non-striker stands
+ */
+export type CreaseEnd = 'striker' | 'non_striker';
+
 /**
  * Player Reference
  * Helper type for player identification
@@ -323,9 +650,16 @@ export interface BallInput {
   wicket?: {
     type: WicketType;
     player_id: string;
-    dismissed_by?: string;
+    dismissed_by?: string; // Catcher, wicketkeeper or fielder who ran the batter out
+    assisted_by?: string; // Run outs: the fielder who threw to dismissed_by
     is_striker_out: boolean;
+    dismissal_end?: CreaseEnd; // Run outs: end where the wicket was broken
+    batters_crossed?: boolean; // Catches under the older laws: the batters had crossed
+    backing_up?: boolean; // Non-striker run out backing up, before the ball was bowled
   };
+  penalty?: PenaltyAward; // With extras type PENALTY: a penalty award, not a delivery
+  hit_object?: boolean; // House rules: the ball hit the fixed object (runs_off_bat set from the rules)
+  boundary?: boolean; // The runs off the bat were a boundary (a four or six), not run
 }
 
 /**
@@ -408,5 +742,48 @@ export interface UndoResult {
   deleted_ball_id: string;
 }
 
+// ============================================================================
+// LEDGER VERIFICATION TYPES
+// ============================================================================
+
+/**
+ * Ledger Issue Type
+ * - gap: a delivery is missing between two ledger entries
+ * - duplicate: the same "{over}_{ball}" id appears more than once
+ * - drift: a stored snapshot or live_state disagrees with the replay
+ */
+export type LedgerIssueType = 'gap' | 'duplicate' | 'drift';
+
+/**
+ * Ledger Issue
+ * A single problem found while replaying an innings ledger
+ */
+export interface LedgerIssue {
+  type: LedgerIssueType;
+  innings_id: InningsId;
+  ball_id?: string; // Ledger id of the ball where the issue was detected
+  field?: string; // State field that disagrees (for drift)
+  message: string; // Human-readable description
+}
 
+/**
+ * Innings Ledger Report
+ * Result of replaying a single innings
+ */
+export interface InningsLedgerReport {
+  innings_id: InningsId;
+  ball_count: number;
+  issues: LedgerIssue[];
+  replayed_state: MatchLiveState | null; // State rebuilt from the ledger (null if no balls)
+}
 
+/**
+ * Ledger Verification Report
+ * Result of verifying every innings of a match against its live_state
+ */
+export interface LedgerVerificationReport {
+  match_id: MatchId;
+  checked_at: number;
+  innings: InningsLedgerReport[];
+  is_consistent: boolean; // True when no issues were found in any innings
+}